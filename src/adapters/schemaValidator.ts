@@ -0,0 +1,97 @@
+import { ValidationErrors, ValidatorFn } from "../directives/validators";
+import { AbstractControl } from "../model/abstract_model";
+
+export interface ISchemaIssue {
+  path: Array<string | number>;
+  message: string;
+}
+
+/**
+ * Error key under which schema issues are set, with the issue message as value. Register a
+ * message such as `{ schema: (message) => message }` to display it.
+ */
+export const SCHEMA_ERROR = "schema";
+
+/**
+ * Creates a `ValidatorFn` from a function that validates a value against a schema.
+ *
+ * Each issue is set with `setErrors` on the control at its path, so it is displayed next to the
+ * matching field. They are set once the validated control is validated, so its ancestors aren't
+ * updated in the middle of it. Issues without a matching control are returned as errors of the
+ * validated control itself. Schema adapters such as `zodValidator` are built on top of it.
+ */
+export function schemaValidator(
+  validate: (value: any) => ISchemaIssue[]
+): ValidatorFn {
+  const flaggedControls = new WeakMap<AbstractControl, Set<AbstractControl>>();
+  const pendingIssues = new WeakMap<
+    AbstractControl,
+    Map<AbstractControl, string>
+  >();
+  const watched = new WeakSet<AbstractControl>();
+
+  const applyIssues = (control: AbstractControl, emitEvent: boolean) => {
+    const flagged = pendingIssues.get(control);
+    if (!flagged) return;
+    pendingIssues.delete(control);
+    (flaggedControls.get(control) || new Set()).forEach((previous) => {
+      if (!flagged.has(previous)) {
+        setSchemaError(previous, null, emitEvent);
+      }
+    });
+    flagged.forEach((message, target) =>
+      setSchemaError(target, message, emitEvent)
+    );
+    flaggedControls.set(control, new Set(flagged.keys()));
+  };
+
+  return (control: AbstractControl): ValidationErrors | null => {
+    const issues = validate(control.value);
+    const flagged = new Map<AbstractControl, string>();
+    let ownMessage: string | null = null;
+
+    issues.forEach((issue) => {
+      const target = issue.path.length ? control.get(issue.path) : null;
+      if (!target || target === control) {
+        ownMessage = ownMessage || issue.message;
+      } else if (!flagged.has(target)) {
+        flagged.set(target, issue.message);
+      }
+    });
+
+    pendingIssues.set(control, flagged);
+    if (!watched.has(control)) {
+      watched.add(control);
+      control._onValidated((opts) =>
+        applyIssues(control, opts.emitEvent !== false)
+      );
+    }
+
+    return ownMessage !== null ? { [SCHEMA_ERROR]: ownMessage } : null;
+  };
+}
+
+function setSchemaError(
+  control: AbstractControl,
+  message: string | null,
+  emitEvent: boolean
+) {
+  const { [SCHEMA_ERROR]: previous, ...errors } = control.errors || {};
+  if (previous === (message === null ? undefined : message)) return;
+  if (message !== null) errors[SCHEMA_ERROR] = message;
+  control.setErrors(Object.keys(errors).length ? errors : null, { emitEvent });
+}
+
+/**
+ * Converts a dotted path such as `"lines[0].qty"` into `["lines", 0, "qty"]`.
+ */
+export function parseSchemaPath(
+  path: string | undefined
+): Array<string | number> {
+  if (!path) return [];
+  return path
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .filter((key) => key !== "")
+    .map((key) => (/^\d+$/.test(key) ? Number(key) : key));
+}
@@ -0,0 +1,42 @@
+import { ValidatorFn } from "../directives/validators";
+import { schemaValidator } from "./schemaValidator";
+
+/**
+ * The subset of valibot's `safeParse` result used by `valibotValidator`.
+ */
+export interface IValibotResult {
+  success: boolean;
+  issues?: Array<{
+    message: string;
+    path?: Array<{ key: string | number }>;
+  }>;
+}
+
+/**
+ * Validates a form value with a valibot schema, setting each issue on the control at its path.
+ * valibot exposes parsing as functions, so its `safeParse` is passed along with the schema.
+ *
+ * ```ts
+ * import { safeParse, object, string, email } from "valibot";
+ * import { valibotValidator } from "rectangular-forms/es/adapters/valibot";
+ *
+ * const form = new FormGroup(
+ *   controls,
+ *   valibotValidator(object({ email: string([email()]) }), safeParse)
+ * );
+ * ```
+ */
+export function valibotValidator<TSchema>(
+  schema: TSchema,
+  safeParse: (schema: TSchema, value: any) => IValibotResult
+): ValidatorFn {
+  return schemaValidator((value) => {
+    const result = safeParse(schema, value);
+    return result.success
+      ? []
+      : (result.issues || []).map((issue) => ({
+          path: (issue.path || []).map((item) => item.key),
+          message: issue.message,
+        }));
+  });
+}
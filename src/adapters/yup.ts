@@ -0,0 +1,56 @@
+import { ValidatorFn } from "../directives/validators";
+import {
+  ISchemaIssue,
+  parseSchemaPath,
+  schemaValidator,
+} from "./schemaValidator";
+
+interface IYupValidationError {
+  path?: string;
+  message: string;
+  inner?: IYupValidationError[];
+}
+
+/**
+ * The subset of a yup schema used by `yupValidator`.
+ */
+export interface IYupSchema {
+  validateSync(value: any, options: { abortEarly: boolean }): any;
+}
+
+/**
+ * Validates a form value with a yup schema, setting each issue on the control at its path.
+ * Only synchronous tests are supported.
+ *
+ * ```ts
+ * import { yupValidator } from "rectangular-forms/es/adapters/yup";
+ *
+ * const form = new FormGroup(controls, yupValidator(object({ email: string().email() })));
+ * ```
+ */
+export function yupValidator(schema: IYupSchema): ValidatorFn {
+  return schemaValidator((value) => {
+    try {
+      schema.validateSync(value, { abortEarly: false });
+      return [];
+    } catch (error) {
+      const validationError = error as IYupValidationError;
+      if (
+        !validationError ||
+        typeof validationError !== "object" ||
+        !Array.isArray(validationError.inner)
+      ) {
+        throw error;
+      }
+      const errors = validationError.inner.length
+        ? validationError.inner
+        : [validationError];
+      return errors.map(
+        (inner): ISchemaIssue => ({
+          path: parseSchemaPath(inner.path),
+          message: inner.message,
+        })
+      );
+    }
+  });
+}
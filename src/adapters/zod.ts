@@ -0,0 +1,32 @@
+import { ValidatorFn } from "../directives/validators";
+import { schemaValidator } from "./schemaValidator";
+
+/**
+ * The subset of a zod schema used by `zodValidator`.
+ */
+export interface IZodSchema {
+  safeParse(value: any):
+    | { success: true }
+    | {
+        success: false;
+        error: {
+          issues: Array<{ path: Array<string | number>; message: string }>;
+        };
+      };
+}
+
+/**
+ * Validates a form value with a zod schema, setting each issue on the control at its path.
+ *
+ * ```ts
+ * import { zodValidator } from "rectangular-forms/es/adapters/zod";
+ *
+ * const form = new FormGroup(controls, zodValidator(z.object({ email: z.string().email() })));
+ * ```
+ */
+export function zodValidator(schema: IZodSchema): ValidatorFn {
+  return schemaValidator((value) => {
+    const result = schema.safeParse(value);
+    return result.success ? [] : result.error.issues;
+  });
+}
@@ -7,6 +7,7 @@ import {
   FormGroup,
 } from "../../exports";
 import { STATUS } from "../WForm/WForm";
+import { IFormArrayElementHelpers } from "../WFormArrayElement/arrayElementHelpers";
 
 export interface IControlContext<T extends AbstractControl = AbstractControl> {
   status: STATUS;
@@ -18,6 +19,20 @@ export interface IControlContext<T extends AbstractControl = AbstractControl> {
     [key: string]: any;
   } | null;
   index?: number;
+  /**
+   * Callback ref registering the element focused when the control is the first invalid one.
+   */
+  focusRef?: (element: any) => void;
+  /**
+   * Options of a control with an `optionsSource`, see `OptionsSource`.
+   */
+  options?: any[];
+  loading?: boolean;
+  reload?: () => void;
+  /**
+   * Set on the elements rendered by `WFormArrayElement`.
+   */
+  arrayHelpers?: IFormArrayElementHelpers;
 }
 
 export function createControlContext<
@@ -4,7 +4,8 @@ import { IControlProvider, useCurrentControl } from "./useCurrentControl";
 
 export const WControlProvider: FC<IControlProvider> = (props) => {
   const controlContext = useCurrentControl(props);
-  const { status, errors } = controlContext;
+  const { status, errors, control } = controlContext;
+  if (status === "SUCCESS" && control.hidden) return null;
   return (
     <>
       {status && status !== "FAILURE" && (
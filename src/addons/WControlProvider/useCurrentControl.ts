@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { map, startWith, tap } from "rxjs/operators";
 import {
   AbstractControl,
@@ -9,11 +9,20 @@ import {
 } from "../../exports";
 import { IControlContext, useControlContext } from "./ControlContext";
 import { STATUS, useFormContext } from "../WForm/WForm";
+import { useMessageCatalog } from "../i18n/MessageCatalogProvider";
+import { ErrorDisplayStrategy } from "../errorDisplay/model";
+import { shouldDisplayErrors } from "../errorDisplay/shouldDisplayErrors";
+import { useFocusRef } from "../focus/useFocusRef";
+import { useControlChanges } from "../hooks/useControlChanges";
 
 interface ICurrentControl<T extends AbstractControl = AbstractControl> {
   name?: string;
   inputControl?: T;
   errorMessages?: IControlErrorMessages;
+  /**
+   * When the validation errors are displayed. Overrides the `showErrors` of the form.
+   */
+  showErrors?: ErrorDisplayStrategy;
   onChange?: (params: {
     value: any;
     prevValue: any;
@@ -31,8 +40,14 @@ interface IUseCurrentControlProps<T extends AbstractControl>
 export const useCurrentControl = <T extends AbstractControl>(
   props: IUseCurrentControlProps<T>
 ): IControlContext<T> => {
-  const { inputControl, name, expectedControl, onChange, errorMessages } =
-    props;
+  const {
+    inputControl,
+    name,
+    expectedControl,
+    onChange,
+    errorMessages,
+    showErrors,
+  } = props;
   const { control, status, errors } = useControlContext<T>();
 
   const [loadControl, setLoadControl] = useState<{
@@ -48,6 +63,9 @@ export const useCurrentControl = <T extends AbstractControl>(
 
   const formContext = useFormContext();
   const { submitted, globalErrorMessages, form } = formContext;
+  const errorDisplayStrategy =
+    showErrors || formContext.showErrors || "onTouchedAndDirty";
+  const { catalog, locale } = useMessageCatalog();
   const prevValueRef = useRef<any>();
   useEffect(() => {
     let currentControl: T | null = null;
@@ -136,15 +154,14 @@ export const useCurrentControl = <T extends AbstractControl>(
     };
   }, [loadControl.control, loadControl.status]);
 
-  const [displayErrors, setDisplayErrors] = useState(false);
+  // The control is undefined while the form of a `WForm` loads.
+  const detachedControl = useMemo(() => new FormControl(), []);
+  const currentControl = loadControl.control || detachedControl;
+  const changeVersion = useControlChanges(currentControl);
 
-  const touched = loadControl.control && loadControl.control.touched;
-  const dirty = loadControl.control && loadControl.control.dirty;
-
-  useEffect(() => {
-    const displayErrors = (touched && dirty) || submitted;
-    setDisplayErrors(displayErrors);
-  }, [touched, dirty, submitted]);
+  const displayErrors =
+    !!loadControl.control &&
+    shouldDisplayErrors(errorDisplayStrategy, loadControl.control, submitted);
 
   const subscriberRef = useRef<any>();
 
@@ -180,7 +197,10 @@ export const useCurrentControl = <T extends AbstractControl>(
     }
     const errorsCalculated = Object.keys(errors || {}).reduce((t, e) => {
       const value =
-        (errorMessages || {})[e] || (globalErrorMessages || {})[e] || e;
+        (errorMessages || {})[e] ||
+        (globalErrorMessages || {})[e] ||
+        (catalog && catalog.format(e, errors![e])) ||
+        e;
       const errorValue =
         typeof value === "function" ? value(errors![e]) : value;
       t[e] = errorValue;
@@ -191,15 +211,35 @@ export const useCurrentControl = <T extends AbstractControl>(
         Object.keys(errorsCalculated).length === 0 ? null : errorsCalculated,
       status,
     });
-  }, [internalValidation, globalErrorMessages, errorMessages, displayErrors]);
-
-  const controlContext: IControlContext<T> = {
-    status: loadControl.status,
-    control: loadControl.control || new FormControl(),
-    errors: loadControl.errors,
-    validationStatus: validation.status,
-    validationErrors: validation.errors,
-  };
+  }, [
+    internalValidation,
+    globalErrorMessages,
+    errorMessages,
+    displayErrors,
+    catalog,
+    locale,
+  ]);
+
+  const focusRef = useFocusRef(currentControl);
+
+  // Kept stable between renders, so the descendants reading the context only re-render when
+  // this control changes. `changeVersion` is what tells it changed.
+  const controlContext = useMemo((): IControlContext<T> => {
+    const { optionsSource } = currentControl as FormControl;
+    return {
+      status: loadControl.status,
+      control: currentControl,
+      errors: loadControl.errors,
+      validationStatus: validation.status,
+      validationErrors: validation.errors,
+      focusRef,
+      ...(optionsSource && {
+        options: optionsSource.options,
+        loading: optionsSource.loading,
+        reload: optionsSource.reload,
+      }),
+    };
+  }, [loadControl, currentControl, validation, focusRef, changeVersion]);
   return controlContext;
 };
 
@@ -211,11 +251,6 @@ export interface IControlProvider<T extends AbstractControl = AbstractControl>
   extends ICurrentControl<T> {
   name?: string;
   control?: T;
-  showErrors?: (
-    control: T,
-    parentControl: AbstractControl,
-    isSubmitted: boolean
-  ) => boolean;
   children?:
     | React.ReactNode
     | ((config: IControlContext<T>) => React.ReactNode);
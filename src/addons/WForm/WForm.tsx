@@ -15,6 +15,8 @@ import { IControlErrorMessages } from "../WControlProvider/useCurrentControl";
 
 import { IFormConfig } from "../WForm/useForm";
 import { FormGroup } from "../../exports";
+import { ErrorDisplayStrategy } from "../errorDisplay/model";
+import { focusFirstInvalid } from "../focus/focusFirstInvalid";
 
 export type STATUS = "PROCESSING" | "SUCCESS" | "FAILURE" | "";
 
@@ -22,6 +24,7 @@ export interface IFormContext extends IFormConfig {
   submitted: boolean;
   markAsSubmitted: () => void;
   globalErrorMessages?: IControlErrorMessages;
+  showErrors?: ErrorDisplayStrategy;
   submit: (event: React.FormEvent<HTMLFormElement>) => void;
 }
 
@@ -49,10 +52,27 @@ export interface IWFormProps extends FormProps {
   children?: ReactNode | ((params: IFormContext) => ReactNode);
   renderOnError?: (error: any) => ReactNode;
   globalErrorMessages?: IControlErrorMessages;
+  /**
+   * When the validation errors of the controls are displayed, see `ErrorDisplayStrategy`.
+   * Defaults to `"onTouchedAndDirty"`.
+   */
+  showErrors?: ErrorDisplayStrategy;
+  /**
+   * Focuses the first invalid control when the form is submitted while invalid, see
+   * `focusFirstInvalid`. Defaults to `true`.
+   */
+  focusInvalidOnSubmit?: boolean;
 }
 
 export const WForm: FC<IWFormProps> = (props) => {
-  const { formConfig, renderOnError, children, globalErrorMessages } = props;
+  const {
+    formConfig,
+    renderOnError,
+    children,
+    globalErrorMessages,
+    showErrors,
+    focusInvalidOnSubmit = true,
+  } = props;
 
   const {
     submit,
@@ -66,6 +86,7 @@ export const WForm: FC<IWFormProps> = (props) => {
     formSavedData,
     formSaveParams,
     reset$,
+    invalidSubmit$,
   } = formConfig;
   const [submitted, setSubmitted] = useState(false);
   const [, forceUpdate] = useReducer((x) => x + 1, 0);
@@ -75,6 +96,13 @@ export const WForm: FC<IWFormProps> = (props) => {
       forceUpdate();
     });
   }, [reset$]);
+  useEffect(() => {
+    if (!focusInvalidOnSubmit) return;
+    const subscription = invalidSubmit$.subscribe((invalidForm) =>
+      focusFirstInvalid(invalidForm)
+    );
+    return () => subscription.unsubscribe();
+  }, [invalidSubmit$, focusInvalidOnSubmit]);
 
   const formContextProvider: IFormContext = {
     form,
@@ -91,6 +119,7 @@ export const WForm: FC<IWFormProps> = (props) => {
       setSubmitted(true);
     },
     globalErrorMessages,
+    showErrors,
     submit,
   };
 
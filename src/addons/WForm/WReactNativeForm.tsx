@@ -1,15 +1,22 @@
-import React, { FC, useState } from "react";
+import React, { FC, useEffect, useState } from "react";
 import { IFormContext, IWFormProps, WFormContext } from "../..";
 import {
   ControlContext,
   IControlContext,
 } from "../WControlProvider/ControlContext";
+import { focusFirstInvalid } from "../focus/focusFirstInvalid";
 
 export const WReactNativeForm: FC<IWFormProps> = (props) => {
-  const { formConfig, renderOnError, children, globalErrorMessages } = props;
+  const {
+    formConfig,
+    renderOnError,
+    children,
+    globalErrorMessages,
+    showErrors,
+    focusInvalidOnSubmit = true,
+  } = props;
 
   const {
-    submit,
     formLoadStatus,
     form,
     formLoadedError,
@@ -19,8 +26,17 @@ export const WReactNativeForm: FC<IWFormProps> = (props) => {
     formSavedError,
     formSavedData,
     formSaveParams,
+    submit,
+    invalidSubmit$,
   } = formConfig;
   const [submitted, setSubmitted] = useState(false);
+  useEffect(() => {
+    if (!focusInvalidOnSubmit) return;
+    const subscription = invalidSubmit$.subscribe((invalidForm) =>
+      focusFirstInvalid(invalidForm, { scroll: false })
+    );
+    return () => subscription.unsubscribe();
+  }, [invalidSubmit$, focusInvalidOnSubmit]);
 
   const formContextProvider: IFormContext = {
     form,
@@ -37,6 +53,7 @@ export const WReactNativeForm: FC<IWFormProps> = (props) => {
       setSubmitted(true);
     },
     globalErrorMessages,
+    showErrors,
     submit,
   };
 
@@ -1,23 +1,71 @@
 import { useReducer, useRef } from "react";
-import { Observable, Subject } from "rxjs";
-import { share } from "rxjs/operators";
+import { forkJoin, from, Observable, of, Subject, Subscription } from "rxjs";
+import {
+  defaultIfEmpty,
+  filter,
+  map,
+  share,
+  switchMap,
+  take,
+  takeLast,
+} from "rxjs/operators";
 import { AbstractControl } from "../../exports";
+import { ModuleUtils } from "../../core/utils/lang";
+import { getFormChanges, getFormPatch } from "../formChanges/formChanges";
+import { IFormChangesOptions } from "../formChanges/model";
+import {
+  applyServerErrors,
+  clearServerErrors,
+} from "../serverErrors/applyServerErrors";
+import { IApplyServerErrorsOptions } from "../serverErrors/model";
 import {
   AsyncProcessor,
   AsyncProcessorFailed,
   AsyncProcessorProcessing,
+  AsyncProcessorSource,
   AsyncProcessorSucceed,
 } from "../utils/LoadControl";
 import { STATUS } from "./WForm";
 interface IUseConfigForm {
   createForm: ICreateForm;
   shared?: { [key: string]: any };
-  onSubmit?: (
+  /**
+   * Called on every submit, valid or not. A returned Promise or Observable is tracked by the
+   * save `AsyncProcessor`.
+   */
+  onSubmit?: FormSubmitHandler;
+  /**
+   * Called when the form is valid once its pending async validators settle. A returned Promise
+   * or Observable is tracked by the save `AsyncProcessor`.
+   */
+  onValidSubmit?: FormSubmitHandler;
+  onInvalidSubmit?: (
     control: AbstractControl,
-    save: AsyncProcessor,
     event: React.FormEvent<HTMLFormElement>
   ) => void;
+  /**
+   * Called before `onSubmit`, once the async validators settle. Returning `false`, or a
+   * Promise or Observable of `false`, cancels the submit.
+   */
+  beforeSubmit?: (
+    control: AbstractControl,
+    event: React.FormEvent<HTMLFormElement>
+  ) => boolean | void | Promise<boolean | void> | Observable<boolean | void>;
+  /**
+   * Called once the submit handlers finish, after the save settles when they return a Promise
+   * or Observable. Also called with the `error` of a failing `beforeSubmit` or a throwing handler.
+   */
+  afterSubmit?: (control: AbstractControl, result: IFormSubmitResult) => void;
   onFormLoaded?: (form: AbstractControl, data: any) => void;
+  /**
+   * Re-renders the component calling `useFormConfig` on every change of the form. By default
+   * only the components of the changed control re-render, see `AbstractControl.notifyChange`.
+   */
+  renderOnChange?: boolean;
+  /**
+   * Applies the error of a failed save onto the form controls, see `applyServerErrors`.
+   */
+  serverErrors?: boolean | IApplyServerErrorsOptions;
   loadRetry?: (
     config: {
       processingLoad: () => void;
@@ -28,12 +76,40 @@ interface IUseConfigForm {
   ) => {};
 }
 
+export type FormSubmitHandler = (
+  control: AbstractControl,
+  save: AsyncProcessor,
+  event: React.FormEvent<HTMLFormElement>
+) => void | Promise<any> | Observable<any>;
+
+export interface IFormSubmitResult {
+  valid: boolean;
+  /**
+   * Value of the Promise or Observable returned by the submit handlers, the one of
+   * `onValidSubmit` when both return one.
+   */
+  data?: any;
+  /**
+   * Error of the Promise or Observable returned by the submit handlers, or thrown by
+   * `beforeSubmit` or the handlers.
+   */
+  error?: any;
+}
+
 type ICreateForm = (
   data: any,
   oldForm: AbstractControl | null,
   formConfig: FormConfig
 ) => AbstractControl;
 
+export interface IFormConfigChangesOptions
+  extends Omit<IFormChangesOptions, "compareWith"> {
+  /**
+   * Diff the form against `formLoadedData` instead of relying on the `dirty` flags.
+   */
+  fromLoadedData?: boolean;
+}
+
 export interface IFormConfig {
   form: AbstractControl | null;
   formLoadedData: any;
@@ -51,6 +127,20 @@ export class FormConfig implements IFormConfig {
   reset$: Observable<void>;
   private _reset$ = new Subject<void>();
 
+  /**
+   * Emits the form created by `loadSucceed`, once it is attached to the config.
+   */
+  formLoaded$: Observable<AbstractControl>;
+  private _formLoaded$ = new Subject<AbstractControl>();
+
+  /**
+   * Emits the form when a submit finds it invalid, once its async validators settle.
+   */
+  invalidSubmit$: Observable<AbstractControl>;
+  private _invalidSubmit$ = new Subject<AbstractControl>();
+
+  private _submitSubscription: Subscription | null = null;
+
   getForm() {
     return this.form;
   }
@@ -70,6 +160,10 @@ export class FormConfig implements IFormConfig {
     return this._loadDataAsyncProcesor.error;
   }
 
+  get formLoadStatus$() {
+    return this._loadDataAsyncProcesor.status$;
+  }
+
   loadProcessing(params?: any) {
     this._loadDataAsyncProcesor.processing(params);
   }
@@ -79,9 +173,10 @@ export class FormConfig implements IFormConfig {
 
     const { createForm, onFormLoaded } = this.config;
     this.form = createForm(data, this.form, this);
-    this.form.forceUpdate = this.forceUpdate;
+    if (this.config.renderOnChange) this.form.forceUpdate = this.forceUpdate;
 
     this.forceUpdate();
+    this._formLoaded$.next(this.form);
 
     if (onFormLoaded) {
       //TODO: remove setTimeout. The purpose of setTimeout is make sure that <WForm> has finish of render.
@@ -95,6 +190,20 @@ export class FormConfig implements IFormConfig {
     this._loadDataAsyncProcesor.failed(error);
   }
 
+  /**
+   * Loads the form data from a Promise or Observable, creating the form when it succeeds.
+   * A load in flight is cancelled. See `AsyncProcessor.run`.
+   */
+  loadRun(source: AsyncProcessorSource, params?: any) {
+    return this._loadDataAsyncProcesor.run(source, params, {
+      succeed: this.loadSucceed,
+    });
+  }
+
+  loadCancel() {
+    this._loadDataAsyncProcesor.cancel();
+  }
+
   loadRetry(
     callback: (
       triggers: {
@@ -124,6 +233,10 @@ export class FormConfig implements IFormConfig {
     return this._saveDataAsyncProcesor.error;
   }
 
+  get formSaveStatus$() {
+    return this._saveDataAsyncProcesor.status$;
+  }
+
   formSaveProcessing(params?: any) {
     this._saveDataAsyncProcesor.processing(params);
   }
@@ -135,6 +248,27 @@ export class FormConfig implements IFormConfig {
     this._saveDataAsyncProcesor.failed(error);
   }
 
+  /**
+   * Saves the form through a Promise or Observable. A save in flight is cancelled. See
+   * `AsyncProcessor.run`.
+   */
+  formSaveRun(source: AsyncProcessorSource, params?: any) {
+    return this._saveDataAsyncProcesor.run(source, params);
+  }
+
+  formSaveCancel() {
+    this._saveDataAsyncProcesor.cancel();
+  }
+
+  /**
+   * Sets the messages of a server error payload on the form controls, see `applyServerErrors`.
+   */
+  applyServerErrors(payload: any, options?: IApplyServerErrorsOptions) {
+    const unmatched = applyServerErrors(this.form, payload, options);
+    this.forceUpdate();
+    return unmatched;
+  }
+
   formSaveRetry(
     callback: (
       triggers: {
@@ -149,21 +283,66 @@ export class FormConfig implements IFormConfig {
     this._saveDataAsyncProcesor.retry(callback, params);
   }
 
+  /**
+   * Changes made to the form, see `getFormChanges`.
+   */
+  getFormChanges(options: IFormConfigChangesOptions = {}) {
+    return getFormChanges(this.form, this._getChangesOptions(options));
+  }
+
+  /**
+   * Object with only the changed fields of the form, see `getFormPatch`.
+   */
+  getFormPatch(options: IFormConfigChangesOptions = {}) {
+    return getFormPatch(this.form, this._getChangesOptions(options));
+  }
+
+  private _getChangesOptions({
+    fromLoadedData,
+    ...options
+  }: IFormConfigChangesOptions): IFormChangesOptions {
+    return fromLoadedData
+      ? { ...options, compareWith: this.formLoadedData }
+      : options;
+  }
+
   private _loadDataAsyncProcesor: AsyncProcessor;
   private _saveDataAsyncProcesor: AsyncProcessor;
   constructor(private config: IUseConfigForm, public forceUpdate: () => void) {
     this._loadDataAsyncProcesor = new AsyncProcessor(forceUpdate);
     this._saveDataAsyncProcesor = new AsyncProcessor(forceUpdate);
+    // Wrapped so the errors are applied when `onSubmit` calls `save.failed` too.
+    const saveFailed = this._saveDataAsyncProcesor.failed;
+    this._saveDataAsyncProcesor.failed = (error: any) => {
+      saveFailed(error);
+      const { serverErrors } = this.config;
+      if (serverErrors && this.form) {
+        this.applyServerErrors(
+          error,
+          serverErrors === true ? undefined : serverErrors
+        );
+      }
+    };
 
     this.loadProcessing = this.loadProcessing.bind(this);
     this.loadSucceed = this.loadSucceed.bind(this);
     this.loadFailed = this.loadFailed.bind(this);
 
     this.loadRetry = this.loadRetry.bind(this);
+    this.loadRun = this.loadRun.bind(this);
+    this.loadCancel = this.loadCancel.bind(this);
+    this.formSaveRun = this.formSaveRun.bind(this);
+    this.formSaveCancel = this.formSaveCancel.bind(this);
     this.getForm = this.getForm.bind(this);
+    this.getFormChanges = this.getFormChanges.bind(this);
+    this.getFormPatch = this.getFormPatch.bind(this);
+    this.applyServerErrors = this.applyServerErrors.bind(this);
+    this.submit = this.submit.bind(this);
     this.reset = this.reset.bind(this);
     this.reset$ = this._reset$.pipe(share());
     this.reset$.subscribe();
+    this.formLoaded$ = this._formLoaded$.pipe(share());
+    this.invalidSubmit$ = this._invalidSubmit$.pipe(share());
   }
 
   public static create(
@@ -173,9 +352,102 @@ export class FormConfig implements IFormConfig {
     return new FormConfig(config, forceUpdate);
   }
 
+  /**
+   * Runs the submit pipeline: applies the pending values of `updateOn: "submit"` controls, marks
+   * every control as touched, waits for the pending async validators, and calls `beforeSubmit`,
+   * `onSubmit`, `onValidSubmit` or `onInvalidSubmit` and `afterSubmit`. The save waits for every
+   * Promise or Observable returned by the handlers. A new submit cancels the previous one and
+   * its save. Runs synchronously when nothing is pending.
+   */
   submit(event: React.FormEvent<HTMLFormElement>) {
-    const { onSubmit } = this.config;
-    onSubmit && onSubmit(this.form!, this._saveDataAsyncProcesor, event);
+    const form = this.form;
+    // The `<form>` of `WForm` is rendered while the form loads.
+    if (!form) return;
+    const { beforeSubmit, afterSubmit } = this.config;
+    // Cancelling the previous submit cancels its save too, restoring the save status.
+    this._submitSubscription && this._submitSubscription.unsubscribe();
+
+    // The server reports its errors again if the save fails.
+    clearServerErrors(form);
+    form._syncPendingControls();
+    form.markAllAsTouched();
+    form.notifyChange();
+    this.forceUpdate();
+
+    const settled$ =
+      form.status === "PENDING"
+        ? form.statusChanges.pipe(
+            filter((status) => status !== "PENDING"),
+            take(1)
+          )
+        : of(form.status);
+    this._submitSubscription = settled$
+      .pipe(
+        switchMap(() =>
+          toObservable(beforeSubmit ? beforeSubmit(form, event) : true).pipe(
+            defaultIfEmpty<boolean | void>(true),
+            takeLast(1)
+          )
+        ),
+        filter((proceed) => proceed !== false),
+        switchMap(() => this._runSubmitHandlers(form, event))
+      )
+      .subscribe({
+        next: (result) => afterSubmit && afterSubmit(form, result),
+        error: (error) =>
+          afterSubmit && afterSubmit(form, { valid: !form.invalid, error }),
+      });
+  }
+
+  private _runSubmitHandlers(
+    form: AbstractControl,
+    event: React.FormEvent<HTMLFormElement>
+  ): Observable<IFormSubmitResult> {
+    const { onSubmit, onValidSubmit, onInvalidSubmit } = this.config;
+    const save = this._saveDataAsyncProcesor;
+    const valid = !form.invalid;
+
+    const results = [onSubmit && onSubmit(form, save, event)];
+    if (valid) {
+      results.push(onValidSubmit && onValidSubmit(form, save, event));
+    } else {
+      onInvalidSubmit && onInvalidSubmit(form, event);
+      this._invalidSubmit$.next(form);
+    }
+
+    const pending = results.filter(
+      (result) =>
+        ModuleUtils.isPromise(result) || ModuleUtils.isObservable(result)
+    );
+    if (!pending.length) return of({ valid });
+
+    // The save succeeds once every handler settles, with the data of the last one.
+    const saved$ = forkJoin(
+      pending.map((result) =>
+        toObservable(result).pipe(defaultIfEmpty(undefined), takeLast(1))
+      )
+    ).pipe(map((data) => data[data.length - 1]));
+    return new Observable<IFormSubmitResult>((subscriber) => {
+      let settled = false;
+      const settle = (result: IFormSubmitResult) => {
+        settled = true;
+        subscriber.next(result);
+        subscriber.complete();
+      };
+      save.run(saved$, form.value, {
+        succeed: (data) => {
+          save.succeed(data);
+          settle({ valid, data });
+        },
+        failed: (error) => {
+          save.failed(error);
+          settle({ valid, error });
+        },
+      });
+      return () => {
+        !settled && save.cancel();
+      };
+    });
   }
 
   reset() {
@@ -183,6 +455,12 @@ export class FormConfig implements IFormConfig {
   }
 }
 
+function toObservable<T>(value: T | Promise<T> | Observable<T>): Observable<T> {
+  if (ModuleUtils.isPromise(value)) return from(value);
+  if (ModuleUtils.isObservable(value)) return value as Observable<T>;
+  return of(value as T);
+}
+
 export const useFormConfig = (props: IUseConfigForm) => {
   const [, forceUpdate] = useReducer((x) => x + 1, 0);
   return useRef(FormConfig.create(props, forceUpdate)).current;
@@ -7,14 +7,19 @@ import {
   IControlContext,
 } from "../WControlProvider/ControlContext";
 import { IControlProvider } from "../WControlProvider/useCurrentControl";
+import { createArrayElementHelpers } from "./arrayElementHelpers";
 
 interface IFormArrayElementProps
   extends Omit<IControlProvider<AbstractControl>, "expectedControl"> {
   getKey?: (control: AbstractControl, index: number) => any;
+  /**
+   * Creates the elements inserted by the `add` helper of `arrayHelpers`.
+   */
+  createElement?: () => AbstractControl;
 }
 
 export const WFormArrayElement: FC<IFormArrayElementProps> = (props) => {
-  const { getKey } = props;
+  const { getKey, createElement } = props;
   const newProps = { ...props, control: props.control as FormArray };
   return (
     <WFormArray {...newProps}>
@@ -23,22 +28,26 @@ export const WFormArrayElement: FC<IFormArrayElementProps> = (props) => {
           <>
             {status === "SUCCESS" && (
               <>
-                {(control as FormArray).controls.map((control, i) => {
-                  const key = getKey
-                    ? getKey(control, i)
-                    : `${i.toString()}-AUTOGENERATED`;
+                {(control as FormArray).controls.map((element, i) => {
+                  if (element.hidden) return null;
+                  const key = getKey ? getKey(element, i) : element.id;
                   const parentControlContext: IControlContext = {
-                    control,
+                    control: element,
                     status: "SUCCESS",
                     errors: null,
                     validationErrors,
                     validationStatus,
                     index: i,
+                    arrayHelpers: createArrayElementHelpers(
+                      control as FormArray,
+                      element,
+                      createElement
+                    ),
                   };
                   return (
                     <ControlContext.Provider
                       value={parentControlContext}
-                      key={key || `${i.toString()}-AUTOGENERATED`}
+                      key={key || element.id}
                     >
                       {typeof props.children === "function"
                         ? props.children(parentControlContext)
@@ -0,0 +1,62 @@
+import { AbstractControl } from "../../model/abstract_model";
+import { FormArray } from "../../model/form_array";
+import { cloneControl } from "../utils/cloneControl";
+
+export interface IFormArrayElementHelpers {
+  /**
+   * Inserts `control` after the element. Without `control`, the element created by
+   * `createElement`, or a reset copy of the element, is inserted.
+   */
+  add: (control?: AbstractControl) => void;
+  remove: () => void;
+  moveUp: () => void;
+  moveDown: () => void;
+  /**
+   * Inserts a copy of the element after it, see `cloneControl`.
+   */
+  duplicate: () => void;
+  isFirst: boolean;
+  isLast: boolean;
+}
+
+/**
+ * Helpers acting on one element of a `FormArray`. The index is looked up on every call, so they
+ * keep working after the array is reordered.
+ */
+export function createArrayElementHelpers(
+  array: FormArray,
+  element: AbstractControl,
+  createElement?: () => AbstractControl
+): IFormArrayElementHelpers {
+  const indexOf = () => array.controls.indexOf(element);
+  const insertAfter = (control: AbstractControl) =>
+    array.insert(indexOf() + 1, control);
+  return {
+    add: (control?: AbstractControl) => {
+      if (control) {
+        insertAfter(control);
+      } else if (createElement) {
+        insertAfter(createElement());
+      } else {
+        const clone = cloneControl(element);
+        clone.reset();
+        insertAfter(clone);
+      }
+    },
+    remove: () => {
+      const index = indexOf();
+      index > -1 && array.removeAt(index);
+    },
+    moveUp: () => {
+      const index = indexOf();
+      index > 0 && array.move(index, index - 1);
+    },
+    moveDown: () => {
+      const index = indexOf();
+      index > -1 && array.move(index, index + 1);
+    },
+    duplicate: () => insertAfter(cloneControl(element)),
+    isFirst: indexOf() === 0,
+    isLast: indexOf() === array.length - 1,
+  };
+}
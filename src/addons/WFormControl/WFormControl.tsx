@@ -2,9 +2,36 @@ import React, { FC } from "react";
 import { FormControl } from "../..";
 import { IControlProvider } from "../WControlProvider/useCurrentControl";
 import { WControlProvider } from "../WControlProvider/WControlProvider";
+import { IControlAdapter } from "../controlAdapter/model";
+import { WBoundControl } from "../controlAdapter/WBoundControl";
 
-type IFormControlProps = Omit<IControlProvider, "expectedControl">;
+interface IFormControlProps extends Omit<IControlProvider, "expectedControl"> {
+  /**
+   * Component rendered bound to the control instead of `children`, see
+   * `registerControlAdapter`.
+   */
+  component?: React.ElementType;
+  componentProps?: { [prop: string]: any };
+  adapter?: IControlAdapter;
+}
 
 export const WFormControl: FC<IFormControlProps> = (props) => {
-  return <WControlProvider {...props} expectedControl={FormControl} />;
+  const { component, componentProps, adapter, ...providerProps } = props;
+  if (!component) {
+    return (
+      <WControlProvider {...providerProps} expectedControl={FormControl} />
+    );
+  }
+  return (
+    <WControlProvider {...providerProps} expectedControl={FormControl}>
+      {({ control }) => (
+        <WBoundControl
+          component={component}
+          control={control as FormControl}
+          adapter={adapter}
+          componentProps={componentProps}
+        />
+      )}
+    </WControlProvider>
+  );
 };
@@ -7,6 +7,7 @@ import {
   FormControl,
   IAsyncCallExecution,
 } from "../../..";
+import { shouldDisplayErrors } from "../../errorDisplay/shouldDisplayErrors";
 import {
   IInputContainerProps,
   IInputContainerPropsData,
@@ -32,6 +33,10 @@ export class InputContainer extends PureComponent<
   }
 
   initializeControl(control: AbstractControl) {
+    const unsubscribeChanges = control.subscribeChanges(() =>
+      this.forceUpdate()
+    );
+    this.destroy$.subscribe(unsubscribeChanges);
     control.statusChanges
       .pipe(
         takeUntil(this.destroy$),
@@ -81,17 +86,20 @@ export class InputContainer extends PureComponent<
     const showErrorsFn: IInputContainerPropsShowErrorsFn = this.props
       .showErrorsFn
       ? this.props.showErrorsFn
-      : () => true;
+      : "always";
     const formLoadStatus: EnumStatusType = this.props.formLoadStatus
       ? this.props.formLoadStatus
       : "SUCCESS";
-    const showErrors = control ? showErrorsFn(control) : false;
+    const showErrors = control
+      ? shouldDisplayErrors(showErrorsFn, control, !!this.props.submitted)
+      : false;
     const data: IInputContainerPropsData = this.props.data
       ? this.props.data
       : {};
     const dataLoadStatus: IAsyncCallExecution = data.load
       ? data.load
       : { status: "SUCCESS" };
+    const optionsSource = control && control.optionsSource;
     const renderLabel = this.props.renderLabel;
     const labelTemplate =
       renderLabel &&
@@ -109,6 +117,11 @@ export class InputContainer extends PureComponent<
         data: dataLoadStatus.data,
         validationStatus: this.state.status,
         showErrors,
+        ...(optionsSource && {
+          options: optionsSource.options,
+          loading: optionsSource.loading,
+          reload: optionsSource.reload,
+        }),
       });
 
     const renderProcessing = this.props.renderProcessing;
@@ -1,5 +1,6 @@
 import React from "react";
 import { AbstractControl, FormControl } from "../../..";
+import { ErrorDisplayStrategy } from "../../errorDisplay/model";
 
 export type EnumStatusType =
   | "WAITING"
@@ -20,6 +21,12 @@ export interface IInputContainerRenderInputParams {
   data: any;
   validationStatus?: EnumStatusType;
   showErrors: boolean;
+  /**
+   * Set when the control has an `optionsSource`.
+   */
+  options?: any[];
+  loading?: boolean;
+  reload?: () => void;
 }
 
 export type IInputContainerPropsRenderLabelParams = {
@@ -40,9 +47,7 @@ export type IInputContainerPropsRenderValidationErrors = (params: {
 export type IInputContainerPropsRenderReload = (
   error: any
 ) => React.ReactFragment;
-export type IInputContainerPropsShowErrorsFn = (
-  control: AbstractControl
-) => boolean;
+export type IInputContainerPropsShowErrorsFn = ErrorDisplayStrategy;
 
 export type IInputContainerPropsData = {
   load?: IAsyncCallExecution;
@@ -57,4 +62,8 @@ export interface IInputContainerProps {
   renderLabel?: IInputContainerPropsRenderLabel;
   renderValidationErrors?: IInputContainerPropsRenderValidationErrors;
   showErrorsFn?: IInputContainerPropsShowErrorsFn;
+  /**
+   * Submitted flag given to `showErrorsFn`.
+   */
+  submitted?: boolean;
 }
@@ -0,0 +1,29 @@
+import React, { FC } from "react";
+import { FormControl } from "../../model/form_control";
+import { useControlContext } from "../WControlProvider/ControlContext";
+import { IControlAdapter } from "./model";
+import { useControlAdapter } from "./useControlAdapter";
+
+export interface IWBoundControlProps {
+  component: React.ElementType;
+  /**
+   * Defaults to the control of the nearest `WControlProvider`.
+   */
+  control?: FormControl;
+  /**
+   * Adapter used instead of the one registered for `component`.
+   */
+  adapter?: IControlAdapter;
+  componentProps?: { [prop: string]: any };
+}
+
+/**
+ * Renders `component` bound to a `FormControl`, see `registerControlAdapter`.
+ */
+export const WBoundControl: FC<IWBoundControlProps> = (props) => {
+  const { component: Component, adapter, componentProps } = props;
+  const context = useControlContext<FormControl>();
+  const control = (props.control || context.control) as FormControl;
+  const adapterProps = useControlAdapter(control, Component, adapter);
+  return <Component {...componentProps} {...adapterProps} />;
+};
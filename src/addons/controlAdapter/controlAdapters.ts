@@ -0,0 +1,29 @@
+import { IControlAdapter } from "./model";
+
+/**
+ * Adapter of components following the `value`/`onChange`/`onBlur`/`disabled` convention of
+ * native inputs. Used for components without a registered adapter.
+ */
+export const defaultControlAdapter: IControlAdapter = {
+  writeValue: (value) => ({ value: value == null ? "" : value }),
+  registerOnChange: (onChange) => ({ onChange }),
+  registerOnTouched: (onTouched) => ({ onBlur: onTouched }),
+  setDisabledState: (disabled) => ({ disabled }),
+};
+
+const controlAdapters = new Map<any, IControlAdapter>();
+
+/**
+ * Registers how `component`, a component type or an intrinsic element name, is bound to a
+ * `FormControl` by `WBoundControl` and `WFormControl`.
+ */
+export function registerControlAdapter<P = any>(
+  component: React.ComponentType<P> | string,
+  adapter: IControlAdapter<P>
+) {
+  controlAdapters.set(component, adapter);
+}
+
+export function getControlAdapter(component: any): IControlAdapter | null {
+  return controlAdapters.get(component) || null;
+}
@@ -0,0 +1,33 @@
+import { FormControl } from "../../model/form_control";
+
+/**
+ * Describes how a component is bound to a `FormControl`, like Angular's `ControlValueAccessor`:
+ * each member returns the props connecting the component to the control.
+ *
+ * ```ts
+ * registerControlAdapter(Slider, {
+ *   writeValue: (value) => ({ value: value || 0 }),
+ *   registerOnChange: (onChange) => ({ onChange: (event, value) => onChange(value) }),
+ *   registerOnTouched: (onTouched) => ({ onChangeCommitted: onTouched }),
+ *   setDisabledState: (disabled) => ({ disabled }),
+ * });
+ * ```
+ */
+export interface IControlAdapter<P = any> {
+  /**
+   * Props rendering the `viewValue` of the control.
+   */
+  writeValue: (value: any, control: FormControl) => Partial<P>;
+  /**
+   * Props calling `onChange` with the new value, or with a change event, when the user edits it.
+   */
+  registerOnChange: (onChange: (valueOrEvent: any) => void) => Partial<P>;
+  /**
+   * Props calling `onTouched` when the user leaves the component.
+   */
+  registerOnTouched?: (onTouched: () => void) => Partial<P>;
+  /**
+   * Props rendering the disabled state of the control.
+   */
+  setDisabledState?: (disabled: boolean) => Partial<P>;
+}
@@ -0,0 +1,37 @@
+import { useEffect, useReducer } from "react";
+import { FormControl } from "../../model/form_control";
+import { defaultControlAdapter, getControlAdapter } from "./controlAdapters";
+import { IControlAdapter } from "./model";
+
+/**
+ * Props binding `component` to `control` through its registered adapter, or through
+ * `defaultControlAdapter` when none is registered. The component re-renders when the value or
+ * the disabled state of the control changes, see `FormControl.registerOnChange` and
+ * `FormControl.registerOnDisabledChange`.
+ */
+export const useControlAdapter = (
+  control: FormControl,
+  component: any,
+  adapter?: IControlAdapter
+): { [prop: string]: any } => {
+  const { writeValue, registerOnChange, registerOnTouched, setDisabledState } =
+    adapter || getControlAdapter(component) || defaultControlAdapter;
+  const [, forceRender] = useReducer((x) => x + 1, 0);
+
+  useEffect(() => {
+    const onModelChange = () => forceRender();
+    control.registerOnChange(onModelChange);
+    control.registerOnDisabledChange(onModelChange);
+    return () => {
+      control._unregisterOnChange(onModelChange);
+      control._unregisterOnDisabledChange(onModelChange);
+    };
+  }, [control]);
+
+  return {
+    ...writeValue(control.viewValue, control),
+    ...registerOnChange(control.onChange),
+    ...(registerOnTouched && registerOnTouched(control.onBlur)),
+    ...(setDisabledState && setDisabledState(control.disabled)),
+  };
+};
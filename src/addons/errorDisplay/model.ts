@@ -0,0 +1,26 @@
+import { AbstractControl } from "../../model/abstract_model";
+
+export type ErrorDisplayStrategyFn = (
+  control: AbstractControl,
+  parentControl: AbstractControl | null,
+  submitted: boolean
+) => boolean;
+
+/**
+ * When the validation errors of a control are displayed:
+ * - `onTouchedAndDirty`: once the control is touched and dirty, or the form is submitted. Default.
+ * - `onTouched`: once the control is touched, or the form is submitted.
+ * - `onDirty`: once the control is dirty, or the form is submitted.
+ * - `afterFirstBlur`: once the user leaves the control, or the form is submitted.
+ * - `onSubmit`: once the form is submitted.
+ * - `always`: always.
+ * - a function deciding it.
+ */
+export type ErrorDisplayStrategy =
+  | "onTouchedAndDirty"
+  | "onTouched"
+  | "onDirty"
+  | "afterFirstBlur"
+  | "onSubmit"
+  | "always"
+  | ErrorDisplayStrategyFn;
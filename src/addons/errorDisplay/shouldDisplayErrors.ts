@@ -0,0 +1,28 @@
+import { AbstractControl } from "../../model/abstract_model";
+import { ErrorDisplayStrategy } from "./model";
+
+/**
+ * Applies an `ErrorDisplayStrategy` to a control.
+ */
+export function shouldDisplayErrors(
+  strategy: ErrorDisplayStrategy,
+  control: AbstractControl,
+  submitted: boolean
+): boolean {
+  switch (strategy) {
+    case "onTouchedAndDirty":
+      return (control.touched && control.dirty) || submitted;
+    case "onTouched":
+      return control.touched || submitted;
+    case "onDirty":
+      return control.dirty || submitted;
+    case "afterFirstBlur":
+      return control.blurred || submitted;
+    case "onSubmit":
+      return submitted;
+    case "always":
+      return true;
+    default:
+      return strategy(control, control.parent, submitted);
+  }
+}
@@ -0,0 +1,120 @@
+import { FormControl } from "../../model/form_control";
+import { STATUS } from "../WForm/WForm";
+
+/**
+ * Type of a `useField` binding: a native input type or the name of a registered value accessor.
+ */
+export type FieldType =
+  | "text"
+  | "number"
+  | "checkbox"
+  | "radio"
+  | "select"
+  | "select-multiple"
+  | "file"
+  | "textarea"
+  | string;
+
+export interface IUseFieldOptions {
+  /**
+   * Defaults to `"text"`.
+   */
+  type?: FieldType;
+  /**
+   * Value of a radio, or of a checkbox whose control holds an array of the checked values.
+   */
+  value?: any;
+  /**
+   * Keeps every selected file of a `file` field in an array, instead of only the first one.
+   */
+  multiple?: boolean;
+  /**
+   * Accessor used instead of the one registered for `type`.
+   */
+  accessor?: IValueAccessor;
+  /**
+   * Defaults to the `id` of the control.
+   */
+  id?: string;
+  /**
+   * Ids of elements describing the field, added to `aria-describedby`.
+   */
+  describedBy?: string;
+}
+
+/**
+ * Connects a component to a `FormControl` through `useField`. Registered with
+ * `registerValueAccessor` to bind third-party components like date pickers or sliders.
+ *
+ * ```ts
+ * registerValueAccessor("datepicker", {
+ *   valueProp: "selected",
+ *   parse: (date) => (date ? date.toISOString() : null),
+ *   format: (value) => (value ? new Date(value) : null),
+ * });
+ * const { props } = useField("birthday", { type: "datepicker" });
+ * ```
+ */
+export interface IValueAccessor {
+  /**
+   * Prop receiving the formatted value, or `null` for components that can't be controlled,
+   * like file inputs. Defaults to `"value"`.
+   */
+  valueProp?: string | null;
+  /**
+   * Prop called by the component when the value changes. Defaults to `"onChange"`.
+   */
+  changeProp?: string;
+  /**
+   * Defaults to `"onBlur"`.
+   */
+  blurProp?: string;
+  /**
+   * Extra props, like `type` or `multiple`.
+   */
+  props?: { [prop: string]: any };
+  /**
+   * Converts what `changeProp` is called with, an event or a value, into the value of the
+   * control. Defaults to `getControlValue`. Skipped for controls with their own `parse`.
+   */
+  parse?: (
+    eventOrValue: any,
+    control: FormControl,
+    options: IUseFieldOptions
+  ) => any;
+  /**
+   * Converts the `viewValue` of the control into the value of `valueProp`.
+   */
+  format?: (value: any, control: FormControl, options: IUseFieldOptions) => any;
+}
+
+export interface IFieldProps {
+  id: string;
+  name?: string;
+  disabled: boolean;
+  ref: (element: any) => void;
+  "aria-invalid": boolean;
+  "aria-describedby"?: string;
+  [prop: string]: any;
+}
+
+export interface IUseFieldResult {
+  /**
+   * Props to spread on the input.
+   */
+  props: IFieldProps;
+  control: FormControl;
+  /**
+   * Whether the errors are displayed, according to the `showErrors` of the form.
+   */
+  showErrors: boolean;
+  /**
+   * Id to set on the element rendering the errors, referenced by `aria-describedby`.
+   */
+  errorsId: string;
+  /**
+   * `"FAILURE"` when the control wasn't found, with the reason in `errors`.
+   */
+  status: STATUS;
+  errors: any;
+}
@@ -0,0 +1,113 @@
+import { useMemo } from "react";
+import { AbstractControl } from "../../model/abstract_model";
+import { FormControl, getControlValue } from "../../model/form_control";
+import { shouldDisplayErrors } from "../errorDisplay/shouldDisplayErrors";
+import { useFocusRef } from "../focus/useFocusRef";
+import { useControlChanges } from "../hooks/useControlChanges";
+import { shallowEqual, useFormSelector } from "../hooks/useFormSelector";
+import { useControlContext } from "../WControlProvider/ControlContext";
+import { useFormContext } from "../WForm/WForm";
+import { IFieldProps, IUseFieldOptions, IUseFieldResult } from "./model";
+import { getValueAccessor } from "./valueAccessors";
+
+/**
+ * Binds an input to a `FormControl`, returning the props to spread on it. A name is looked up
+ * in the control of the nearest `WControlProvider`.
+ *
+ * The props depend on `type`: `checked` for checkboxes and radios, no `value` for file inputs,
+ * and the props of the registered value accessor for other types, see `registerValueAccessor`.
+ * When the control has its own `parse`, it receives the raw input value instead of the one
+ * parsed by the accessor.
+ *
+ * If the name isn't found, `status` is `"FAILURE"` and the props are bound to a detached control.
+ *
+ * ```tsx
+ * const { props, showErrors, errorsId, control } = useField("email", { type: "text" });
+ * return (
+ *   <>
+ *     <input {...props} />
+ *     {showErrors && control.errors && <span id={errorsId}>Invalid email</span>}
+ *   </>
+ * );
+ * ```
+ */
+export const useField = (
+  nameOrControl: string | AbstractControl,
+  options: IUseFieldOptions = {}
+): IUseFieldResult => {
+  const { control: parentControl } = useControlContext<AbstractControl>();
+  const { submitted, showErrors: errorDisplayStrategy } = useFormContext();
+
+  const detachedControl = useMemo(() => new FormControl(), []);
+
+  const found =
+    typeof nameOrControl === "string"
+      ? parentControl.get(nameOrControl)
+      : nameOrControl;
+  const control = (found || detachedControl) as FormControl;
+  const errors = found
+    ? null
+    : { code: `Control with name :${nameOrControl} was not found.` };
+
+  useControlChanges(control);
+  const { invalid } = useFormSelector(
+    control,
+    (c) => ({ invalid: c.invalid, disabled: c.disabled, status: c.status }),
+    shallowEqual
+  );
+  const focusRef = useFocusRef(control);
+
+  const { type = "text" } = options;
+  const accessor = options.accessor ||
+    getValueAccessor(type) || { props: { type } };
+  const {
+    valueProp = "value",
+    changeProp = "onChange",
+    blurProp = "onBlur",
+    format = (value: any) => value,
+  } = accessor;
+
+  // The control parses the value itself, so the accessor only unwraps the event.
+  const parse = (!control._parse && accessor.parse) || getControlValue;
+
+  const showErrors = shouldDisplayErrors(
+    errorDisplayStrategy || "onTouchedAndDirty",
+    control,
+    submitted
+  );
+  const errorsId = `${options.id || control.id}-errors`;
+  const describedBy = [options.describedBy, showErrors && invalid && errorsId]
+    .filter((id) => !!id)
+    .join(" ");
+
+  const props: IFieldProps = {
+    ...accessor.props,
+    id: options.id || control.id,
+    name: typeof nameOrControl === "string" ? nameOrControl : undefined,
+    disabled: control.disabled,
+    ref: focusRef,
+    "aria-invalid": showErrors && invalid,
+    "aria-describedby": describedBy || undefined,
+    [changeProp]: (eventOrValue: any) =>
+      control.onChange(parse(eventOrValue, control, options)),
+    [blurProp]: () => control.onBlur(),
+  };
+  if (valueProp) {
+    props[valueProp] = format(control.viewValue, control, options);
+  }
+  if ((type === "radio" || type === "checkbox") && "value" in options) {
+    props.value = options.value;
+  }
+  if (type === "file" && options.multiple) {
+    props.multiple = true;
+  }
+
+  return {
+    props,
+    control,
+    showErrors,
+    errorsId,
+    status: found ? "SUCCESS" : "FAILURE",
+    errors,
+  };
+};
@@ -0,0 +1,65 @@
+import { getControlValue, isEvent } from "../../model/form_control";
+import { IValueAccessor } from "./model";
+
+const toText = (value: any) => (value == null ? "" : value);
+
+const toNumberOrNull = (value: any) =>
+  value === "" || value == null || (typeof value === "number" && isNaN(value))
+    ? null
+    : Number(value);
+
+const valueAccessors: { [type: string]: IValueAccessor } = {
+  text: { props: { type: "text" }, format: toText },
+  textarea: { format: toText },
+  select: { format: toText },
+  number: {
+    props: { type: "number" },
+    parse: (event) => toNumberOrNull(getControlValue(event)),
+    format: toText,
+  },
+  "select-multiple": {
+    props: { multiple: true },
+    format: (value) => (Array.isArray(value) ? value : []),
+  },
+  checkbox: {
+    valueProp: "checked",
+    props: { type: "checkbox" },
+    parse: (event, control, options) => {
+      const checked = !!getControlValue(event);
+      if (options.value === undefined) return checked;
+      const values: any[] = Array.isArray(control.value) ? control.value : [];
+      const others = values.filter((value) => value !== options.value);
+      return checked ? [...others, options.value] : others;
+    },
+    format: (value, control, options) =>
+      options.value === undefined
+        ? !!value
+        : Array.isArray(value) && value.indexOf(options.value) > -1,
+  },
+  radio: {
+    valueProp: "checked",
+    props: { type: "radio" },
+    parse: (event, control, options) => options.value,
+    format: (value, control, options) => value === options.value,
+  },
+  file: {
+    valueProp: null,
+    props: { type: "file" },
+    parse: (event, control, options) => {
+      if (!isEvent(event)) return event;
+      const files: any[] = Array.from(event.target.files || []);
+      return options.multiple ? files : files[0] || null;
+    },
+  },
+};
+
+/**
+ * Registers the accessor used by `useField` for `type`, replacing any previous one.
+ */
+export function registerValueAccessor(type: string, accessor: IValueAccessor) {
+  valueAccessors[type] = accessor;
+}
+
+export function getValueAccessor(type: string): IValueAccessor | null {
+  return valueAccessors[type] || null;
+}
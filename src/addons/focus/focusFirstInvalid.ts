@@ -0,0 +1,70 @@
+import { AbstractControl } from "../../model/abstract_model";
+import { IFocusFirstInvalidOptions } from "./model";
+
+// Node.DOCUMENT_POSITION_FOLLOWING, not referenced through `Node` to run in React Native.
+const DOCUMENT_POSITION_FOLLOWING = 4;
+
+/**
+ * Invalid controls of a tree that have a `focusElement`, in the order they are rendered.
+ *
+ * DOM elements are sorted by their position in the document. Other elements, like React Native
+ * refs, come after them in the order of the control tree.
+ */
+export function getInvalidFocusTargets(
+  control: AbstractControl
+): AbstractControl[] {
+  const targets: AbstractControl[] = [];
+  collectInvalid(control, targets);
+  const order = new Map(targets.map((target, index) => [target, index]));
+  return targets.sort((a, b) => {
+    const first = a.focusElement;
+    const second = b.focusElement;
+    const firstInDom = isDomElement(first);
+    const secondInDom = isDomElement(second);
+    if (firstInDom !== secondInDom) return firstInDom ? -1 : 1;
+    if (!firstInDom || first === second) return order.get(a)! - order.get(b)!;
+    return first.compareDocumentPosition(second) & DOCUMENT_POSITION_FOLLOWING
+      ? -1
+      : 1;
+  });
+}
+
+function isDomElement(element: any): boolean {
+  return typeof element.compareDocumentPosition === "function";
+}
+
+/**
+ * Scrolls to and focuses the element of the first invalid control of a tree.
+ *
+ * @returns the focused control, or `null` when no invalid control has a `focusElement`.
+ */
+export function focusFirstInvalid(
+  control: AbstractControl,
+  options: IFocusFirstInvalidOptions = {}
+): AbstractControl | null {
+  const { scroll = true, scrollBehavior = "smooth" } = options;
+  const [target] = getInvalidFocusTargets(control);
+  if (!target) return null;
+  const element = target.focusElement;
+  const canScroll = scroll && typeof element.scrollIntoView === "function";
+  if (canScroll) {
+    element.scrollIntoView({ behavior: scrollBehavior, block: "center" });
+  }
+  // Focusing would jump to the element and cancel the smooth scroll.
+  canScroll ? element.focus({ preventScroll: true }) : element.focus();
+  return target;
+}
+
+function collectInvalid(control: AbstractControl, targets: AbstractControl[]) {
+  if (!control.invalid || control.hidden) return;
+  if (
+    control.focusElement &&
+    typeof control.focusElement.focus === "function"
+  ) {
+    targets.push(control);
+    return;
+  }
+  control._forEachChild((child: AbstractControl) =>
+    collectInvalid(child, targets)
+  );
+}
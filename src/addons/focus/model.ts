@@ -0,0 +1,8 @@
+export interface IFocusFirstInvalidOptions {
+  /**
+   * Scrolls the element into view before focusing it. Only applies to DOM elements.
+   * Defaults to `true`.
+   */
+  scroll?: boolean;
+  scrollBehavior?: "auto" | "smooth";
+}
@@ -0,0 +1,24 @@
+import { useCallback } from "react";
+import { AbstractControl } from "../../model/abstract_model";
+import { useControlContext } from "../WControlProvider/ControlContext";
+
+/**
+ * Callback ref registering an element as the `focusElement` of a control, so
+ * `focusFirstInvalid` can focus it. Uses the control of the nearest `WControlProvider` when no
+ * control is given.
+ *
+ * ```tsx
+ * const focusRef = useFocusRef();
+ * return <input ref={focusRef} value={control.value} onChange={control.onChange} />;
+ * ```
+ */
+export const useFocusRef = (control?: AbstractControl) => {
+  const context = useControlContext<AbstractControl>();
+  const target = control || context.control;
+  return useCallback(
+    (element: any) => {
+      target.focusElement = element;
+    },
+    [target]
+  );
+};
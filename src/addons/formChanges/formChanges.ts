@@ -0,0 +1,202 @@
+import { AbstractControl } from "../../model/abstract_model";
+import { FormArray } from "../../model/form_array";
+import { FormGroup } from "../../model/form_group";
+import { isEqual } from "../utils/isEqual";
+import {
+  FormChangePath,
+  IFormChange,
+  IFormChangesOptions,
+  IJsonPatchOperation,
+} from "./model";
+
+/**
+ * Lists the changes made to a control tree.
+ *
+ * By default every dirty `FormControl` is reported as a `replace`, and a `FormArray` whose elements
+ * were added, removed or reordered since it was pristine is reported whole as a `replace`. Pass
+ * `compareWith` to diff the tree against that value instead: missing keys and elements are then
+ * reported as `add` and `remove`. `remove` operations are listed from the last index down, so the
+ * result can be applied in order.
+ *
+ * ```ts
+ * getFormChanges(form, { compareWith: formConfig.formLoadedData });
+ * // [{ op: "replace", path: ["name"], value: "Jhon" }, { op: "remove", path: ["tags", 1] }]
+ * ```
+ */
+export function getFormChanges(
+  control: AbstractControl,
+  options: IFormChangesOptions = {}
+): IFormChange[] {
+  const changes: IFormChange[] = [];
+  if ("compareWith" in options) {
+    diffWithValue(control, options.compareWith, [], options, changes);
+  } else {
+    collectDirty(control, [], options, changes);
+  }
+  return changes;
+}
+
+/**
+ * Builds the minimal object holding only the changed fields of a control tree, keeping their
+ * nesting. Like JSON Merge Patch (RFC 7396), an array with any change is sent whole, so element
+ * adds and removes are represented by the new array.
+ *
+ * Returns `undefined` when nothing changed.
+ *
+ * ```ts
+ * formConfig.formSaveProcessing(getFormPatch(form));
+ * // { address: { city: "Lima" }, tags: ["a", "c"] }
+ * ```
+ */
+export function getFormPatch(
+  control: AbstractControl,
+  options: IFormChangesOptions = {}
+): any {
+  const changes = getFormChanges(control, options);
+  if (!changes.length) return undefined;
+
+  const patch: any = {};
+  for (const change of changes) {
+    if (!change.path.length || control instanceof FormArray) {
+      return getControlValue(control, options);
+    }
+    let current: AbstractControl = control;
+    let target = patch;
+    for (let i = 0; i < change.path.length; i++) {
+      const key = change.path[i];
+      current = (current as FormGroup).controls[key];
+      if (current instanceof FormArray) {
+        target[key] = getControlValue(current, options);
+        break;
+      }
+      if (i === change.path.length - 1) {
+        target[key] = change.value;
+      } else {
+        target = target[key] = target[key] || {};
+      }
+    }
+  }
+  return patch;
+}
+
+/**
+ * Converts changes from `getFormChanges` into an RFC 6902 JSON Patch document.
+ */
+export function toJsonPatch(changes: IFormChange[]): IJsonPatchOperation[] {
+  return changes.map(({ op, path, value }) =>
+    op === "remove"
+      ? { op, path: toJsonPointer(path) }
+      : { op, path: toJsonPointer(path), value }
+  );
+}
+
+function toJsonPointer(path: FormChangePath): string {
+  return path
+    .map((key) => "/" + `${key}`.replace(/~/g, "~0").replace(/\//g, "~1"))
+    .join("");
+}
+
+function collectDirty(
+  control: AbstractControl,
+  path: FormChangePath,
+  options: IFormChangesOptions,
+  changes: IFormChange[]
+) {
+  if (control instanceof FormArray && hasElementsChanged(control)) {
+    changes.push({
+      op: "replace",
+      path,
+      value: getControlValue(control, options),
+    });
+    return;
+  }
+  // Groups are visited even when pristine, since they may hold changed arrays.
+  if (control instanceof FormGroup || control instanceof FormArray) {
+    forEachInspectedChild(control, options, (child, key) =>
+      collectDirty(child, [...path, key], options, changes)
+    );
+  } else if (control.dirty) {
+    changes.push({ op: "replace", path, value: control.value });
+  }
+}
+
+function hasElementsChanged(array: FormArray): boolean {
+  const pristine = array._pristineControls;
+  return (
+    pristine.length !== array.controls.length ||
+    pristine.some((control, index) => control !== array.controls[index])
+  );
+}
+
+function diffWithValue(
+  control: AbstractControl,
+  baseline: any,
+  path: FormChangePath,
+  options: IFormChangesOptions,
+  changes: IFormChange[]
+) {
+  if (control instanceof FormArray && Array.isArray(baseline)) {
+    forEachInspectedChild(control, options, (child, index) => {
+      if (index < baseline.length) {
+        diffWithValue(
+          child,
+          baseline[index],
+          [...path, index],
+          options,
+          changes
+        );
+      } else {
+        changes.push({
+          op: "add",
+          path: [...path, index],
+          value: getControlValue(child, options),
+        });
+      }
+    });
+    // Indexes are positions in the array, disabled elements included.
+    for (let index = baseline.length - 1; index >= control.length; index--) {
+      changes.push({ op: "remove", path: [...path, index] });
+    }
+  } else if (
+    control instanceof FormGroup &&
+    baseline !== null &&
+    typeof baseline === "object" &&
+    !Array.isArray(baseline)
+  ) {
+    forEachInspectedChild(control, options, (child, key) => {
+      if (key in baseline) {
+        diffWithValue(child, baseline[key], [...path, key], options, changes);
+      } else {
+        changes.push({
+          op: "add",
+          path: [...path, key],
+          value: getControlValue(child, options),
+        });
+      }
+    });
+  } else {
+    const value = getControlValue(control, options);
+    if (!isEqual(value, baseline)) {
+      changes.push({ op: "replace", path, value });
+    }
+  }
+}
+
+function forEachInspectedChild(
+  control: FormGroup | FormArray,
+  options: IFormChangesOptions,
+  cb: (child: AbstractControl, key: any) => void
+) {
+  control._forEachChild((child: AbstractControl, key: string | number) => {
+    if (options.includeDisabled || child.enabled || control.disabled) {
+      cb(child, key);
+    }
+  });
+}
+
+function getControlValue(
+  control: AbstractControl,
+  options: IFormChangesOptions
+) {
+  return options.includeDisabled ? control.getRawValue() : control.value;
+}
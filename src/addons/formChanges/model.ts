@@ -0,0 +1,36 @@
+export type FormChangeOperation = "add" | "remove" | "replace";
+
+export type FormChangePath = Array<string | number>;
+
+export interface IFormChange {
+  op: FormChangeOperation;
+  /**
+   * Keys from the inspected control down to the changed control, e.g. `["address", "lines", 0]`.
+   */
+  path: FormChangePath;
+  /**
+   * New value of the control. Not set for `remove` operations.
+   */
+  value?: any;
+}
+
+export interface IFormChangesOptions {
+  /**
+   * Value to diff the form against, usually `FormConfig.formLoadedData`. When omitted, the
+   * `dirty` flag of every control decides what changed.
+   */
+  compareWith?: any;
+  /**
+   * Whether disabled controls are inspected too. Defaults to `false`, matching `value`.
+   */
+  includeDisabled?: boolean;
+}
+
+/**
+ * Operation of an RFC 6902 JSON Patch document.
+ */
+export interface IJsonPatchOperation {
+  op: FormChangeOperation;
+  path: string;
+  value?: any;
+}
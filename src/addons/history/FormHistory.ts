@@ -0,0 +1,246 @@
+import { BehaviorSubject, Observable, Subscription } from "rxjs";
+import { distinctUntilChanged } from "rxjs/operators";
+import { AbstractControl } from "../../model/abstract_model";
+import { FormArray } from "../../model/form_array";
+import { FormGroup } from "../../model/form_group";
+import { IFormHistoryOptions } from "./model";
+
+type HistoryNode =
+  | { kind: "control"; value: any; dirty: boolean }
+  | { kind: "group"; children: { [key: string]: HistoryNode } }
+  | { kind: "array"; controls: AbstractControl[]; children: HistoryNode[] };
+
+/**
+ * Records the value history of a control subtree and restores it on `undo()`/`redo()`.
+ *
+ * Entries are snapshots of the subtree taken from `valueChanges`. `FormArray` snapshots keep the
+ * element control instances, so `push`, `insert` and `removeAt` are undone by putting the
+ * previous controls back, along with their values and dirty state.
+ *
+ * ```ts
+ * const history = new FormHistory(form, { coalesceTime: 300 });
+ * history.canUndo$.subscribe((canUndo) => setUndoEnabled(canUndo));
+ * history.undo();
+ * history.destroy();
+ * ```
+ */
+export class FormHistory {
+  canUndo$: Observable<boolean>;
+  canRedo$: Observable<boolean>;
+
+  private _past: HistoryNode[] = [];
+  private _future: HistoryNode[] = [];
+  private _present: HistoryNode;
+  private _lastChangedPath: string | null = null;
+  private _lastRecordedAt = 0;
+  private _restoring = false;
+  private _subscription: Subscription;
+  private _canUndo$ = new BehaviorSubject<boolean>(false);
+  private _canRedo$ = new BehaviorSubject<boolean>(false);
+
+  constructor(
+    public readonly control: AbstractControl,
+    private options: IFormHistoryOptions = {}
+  ) {
+    this.canUndo$ = this._canUndo$.pipe(distinctUntilChanged());
+    this.canRedo$ = this._canRedo$.pipe(distinctUntilChanged());
+    this._present = takeSnapshot(control);
+    this._subscription = control.valueChanges.subscribe(() => this._record());
+
+    this.undo = this.undo.bind(this);
+    this.redo = this.redo.bind(this);
+  }
+
+  get canUndo() {
+    return this._past.length > 0;
+  }
+
+  get canRedo() {
+    return this._future.length > 0;
+  }
+
+  undo() {
+    const previous = this._past.pop();
+    if (!previous) return;
+    this._future.push(this._present);
+    this._restore(previous);
+  }
+
+  redo() {
+    const next = this._future.pop();
+    if (!next) return;
+    this._past.push(this._present);
+    this._restore(next);
+  }
+
+  /**
+   * Forgets every entry and takes the current state as the starting point.
+   */
+  clear() {
+    this._past = [];
+    this._future = [];
+    this._present = takeSnapshot(this.control);
+    this._lastChangedPath = null;
+    this._emitAvailability();
+  }
+
+  destroy() {
+    this._subscription.unsubscribe();
+    this._canUndo$.complete();
+    this._canRedo$.complete();
+  }
+
+  private _record() {
+    if (this._restoring) return;
+    const snapshot = takeSnapshot(this.control);
+    const changedPath = findChangedPath(this._present, snapshot, "");
+    if (changedPath === undefined) return;
+
+    const { coalesceTime = 500, maxSize = 100 } = this.options;
+    const now = Date.now();
+    const coalesce =
+      changedPath !== null &&
+      changedPath === this._lastChangedPath &&
+      now - this._lastRecordedAt <= coalesceTime &&
+      this._past.length > 0 &&
+      this._future.length === 0;
+
+    if (!coalesce) {
+      this._past.push(this._present);
+      if (this._past.length > maxSize) this._past.shift();
+    }
+    this._present = snapshot;
+    this._future = [];
+    this._lastChangedPath = changedPath;
+    this._lastRecordedAt = now;
+    this._emitAvailability();
+  }
+
+  private _restore(snapshot: HistoryNode) {
+    this._restoring = true;
+    try {
+      restoreSnapshot(this.control, snapshot);
+      this.control.updateValueAndValidity();
+      if (this.control.parent) this.control.parent._updatePristine();
+    } finally {
+      this._restoring = false;
+    }
+    this._present = snapshot;
+    this._lastChangedPath = null;
+    this._emitAvailability();
+  }
+
+  private _emitAvailability() {
+    this._canUndo$.next(this.canUndo);
+    this._canRedo$.next(this.canRedo);
+  }
+}
+
+function takeSnapshot(control: AbstractControl): HistoryNode {
+  if (control instanceof FormArray) {
+    return {
+      kind: "array",
+      controls: control.controls.slice(),
+      children: control.controls.map(takeSnapshot),
+    };
+  }
+  if (control instanceof FormGroup) {
+    const children: { [key: string]: HistoryNode } = {};
+    control._forEachChild((child: AbstractControl, key: string) => {
+      children[key] = takeSnapshot(child);
+    });
+    return { kind: "group", children };
+  }
+  return { kind: "control", value: control.value, dirty: control.dirty };
+}
+
+/**
+ * Returns the path of the only leaf that differs between both snapshots, `null` when several
+ * leaves or the structure differ, and `undefined` when they are equal.
+ */
+function findChangedPath(
+  a: HistoryNode,
+  b: HistoryNode,
+  path: string
+): string | null | undefined {
+  if (a.kind === "control" && b.kind === "control") {
+    return isSameValue(a.value, b.value) ? undefined : path;
+  }
+  if (a.kind === "array" && b.kind === "array") {
+    if (
+      a.controls.length !== b.controls.length ||
+      a.controls.some((control, i) => control !== b.controls[i])
+    ) {
+      return null;
+    }
+    return findChangedChild(
+      a.children.map((child, i) => [`${i}`, child, b.children[i]])
+    );
+  }
+  if (a.kind === "group" && b.kind === "group") {
+    const keys = Object.keys(b.children);
+    if (keys.length !== Object.keys(a.children).length) return null;
+    return findChangedChild(
+      keys.map((key) => [key, a.children[key], b.children[key]])
+    );
+  }
+  return null;
+
+  function findChangedChild(
+    entries: Array<[string, HistoryNode | undefined, HistoryNode]>
+  ): string | null | undefined {
+    let changed: string | null | undefined = undefined;
+    for (const [key, childA, childB] of entries) {
+      if (!childA) return null;
+      const childPath = findChangedPath(
+        childA,
+        childB,
+        path ? `${path}.${key}` : key
+      );
+      if (childPath === undefined) continue;
+      if (changed !== undefined || childPath === null) return null;
+      changed = childPath;
+    }
+    return changed;
+  }
+}
+
+function restoreSnapshot(control: AbstractControl, snapshot: HistoryNode) {
+  if (snapshot.kind === "array" && control instanceof FormArray) {
+    const sameControls =
+      control.length === snapshot.controls.length &&
+      snapshot.controls.every((child, i) => control.at(i) === child);
+    if (!sameControls) {
+      control.clear({ emitEvent: false });
+      snapshot.controls.forEach((child) =>
+        control.push(child, { emitEvent: false })
+      );
+    }
+    snapshot.children.forEach((child, i) =>
+      restoreSnapshot(control.at(i), child)
+    );
+  } else if (snapshot.kind === "group" && control instanceof FormGroup) {
+    Object.keys(snapshot.children).forEach((key) => {
+      const child = control.controls[key];
+      child && restoreSnapshot(child, snapshot.children[key]);
+    });
+  } else if (snapshot.kind === "control") {
+    if (!isSameValue(control.value, snapshot.value)) {
+      control.setValue(snapshot.value, { onlySelf: true });
+    }
+    snapshot.dirty
+      ? control.markAsDirty({ onlySelf: true })
+      : control.markAsPristine({ onlySelf: true });
+    return;
+  }
+  control.updateValueAndValidity({ onlySelf: true });
+  control._updatePristine({ onlySelf: true });
+}
+
+function isSameValue(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+    return false;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
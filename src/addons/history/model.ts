@@ -0,0 +1,11 @@
+export interface IFormHistoryOptions {
+  /**
+   * Consecutive edits of the same field made within this many milliseconds are merged into a
+   * single history entry. `0` records every change. Defaults to `500`.
+   */
+  coalesceTime?: number;
+  /**
+   * Maximum number of entries kept in the undo stack. Defaults to `100`.
+   */
+  maxSize?: number;
+}
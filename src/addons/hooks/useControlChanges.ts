@@ -0,0 +1,17 @@
+import { useCallback } from "react";
+import { AbstractControl } from "../../model/abstract_model";
+import { useSyncExternalStore } from "./useSyncExternalStore";
+
+/**
+ * Re-renders the component when `control.notifyChange()` is called, which happens when its
+ * value, interaction flags, visibility, elements or `load` status change.
+ *
+ * @returns the `changeVersion` of the control.
+ */
+export const useControlChanges = (control: AbstractControl): number => {
+  const subscribe = useCallback(
+    (onChange: () => void) => control.subscribeChanges(onChange),
+    [control]
+  );
+  return useSyncExternalStore(subscribe, () => control.changeVersion);
+};
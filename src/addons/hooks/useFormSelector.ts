@@ -0,0 +1,109 @@
+import { useCallback, useRef } from "react";
+import { merge } from "rxjs";
+import { AbstractControl } from "../../model/abstract_model";
+import { useFormContext } from "../WForm/WForm";
+import { useSyncExternalStore } from "./useSyncExternalStore";
+
+/**
+ * Compares the own enumerable properties of two objects or arrays with `Object.is`.
+ */
+export function shallowEqual(a: any, b: any): boolean {
+  if (Object.is(a, b)) return true;
+  if (
+    a === null ||
+    b === null ||
+    typeof a !== "object" ||
+    typeof b !== "object"
+  ) {
+    return false;
+  }
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        Object.is(a[key], b[key])
+    )
+  );
+}
+
+/**
+ * Reads a slice of the state of a control, re-rendering the component only when the slice
+ * changes according to `equalityFn` (`Object.is` by default, see `shallowEqual` for objects).
+ *
+ * The selector runs again on `valueChanges`, `statusChanges` and `notifyChange()` of the control.
+ * Without `control`, the `form` of the enclosing `WForm` is used. While that form loads, the
+ * previous selection is returned, `undefined` at first.
+ *
+ * ```ts
+ * const total = useFormSelector(null, (form) => form.value.total);
+ * const canSave = useFormSelector(form, (form) => form.valid && form.dirty);
+ * ```
+ */
+export const useFormSelector = <T, C extends AbstractControl = AbstractControl>(
+  control: C | null | undefined,
+  selector: (control: C) => T,
+  equalityFn: (a: T, b: T) => boolean = Object.is
+): T => {
+  const { form } = useFormContext();
+  const target = (control || form) as C | null | undefined;
+
+  // Incremented by the subscription, so the selector only runs again after a change.
+  const versionRef = useRef(0);
+  const selectionRef = useRef<{
+    target: C | null | undefined;
+    selector: (control: C) => T;
+    version: number;
+    value: T;
+  } | null>(null);
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      if (!target) return () => {};
+      const subscription = merge(
+        target.valueChanges,
+        target.statusChanges
+      ).subscribe(() => {
+        versionRef.current++;
+        onChange();
+      });
+      const unsubscribeChanges = target.subscribeChanges(() => {
+        versionRef.current++;
+        onChange();
+      });
+      return () => {
+        subscription.unsubscribe();
+        unsubscribeChanges();
+      };
+    },
+    [target]
+  );
+
+  const getSnapshot = () => {
+    const selection = selectionRef.current;
+    if (!target) return (selection ? selection.value : undefined) as T;
+    if (
+      selection &&
+      selection.target === target &&
+      selection.selector === selector &&
+      selection.version === versionRef.current
+    ) {
+      return selection.value;
+    }
+    const selected = selector(target);
+    const value =
+      selection && equalityFn(selection.value, selected)
+        ? selection.value
+        : selected;
+    selectionRef.current = {
+      target,
+      selector,
+      version: versionRef.current,
+      value,
+    };
+    return value;
+  };
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+};
@@ -0,0 +1,41 @@
+import React, { useEffect, useReducer, useRef } from "react";
+
+type UseSyncExternalStore = <T>(
+  subscribe: (onStoreChange: () => void) => () => void,
+  getSnapshot: () => T
+) => T;
+
+/**
+ * Subscribes a component to an external store, re-rendering it when the snapshot changes.
+ * `subscribe` must keep its identity between renders.
+ *
+ * Uses `React.useSyncExternalStore` when available (React 18) and falls back to an effect based
+ * subscription on React 16 and 17.
+ */
+export const useSyncExternalStore: UseSyncExternalStore =
+  (React as any).useSyncExternalStore || useSyncExternalStoreFallback;
+
+function useSyncExternalStoreFallback<T>(
+  subscribe: (onStoreChange: () => void) => () => void,
+  getSnapshot: () => T
+): T {
+  const snapshot = getSnapshot();
+  const [, forceRender] = useReducer((x) => x + 1, 0);
+  const snapshotRef = useRef(snapshot);
+  const getSnapshotRef = useRef(getSnapshot);
+  snapshotRef.current = snapshot;
+  getSnapshotRef.current = getSnapshot;
+
+  useEffect(() => {
+    const checkForUpdates = () => {
+      if (!Object.is(snapshotRef.current, getSnapshotRef.current())) {
+        forceRender();
+      }
+    };
+    // The store may have changed between the render and the subscription.
+    checkForUpdates();
+    return subscribe(checkForUpdates);
+  }, [subscribe]);
+
+  return snapshot;
+}
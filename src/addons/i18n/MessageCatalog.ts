@@ -0,0 +1,78 @@
+import { BehaviorSubject, Observable } from "rxjs";
+import { distinctUntilChanged } from "rxjs/operators";
+import { DEFAULT_MESSAGES_EN } from "./defaultMessages";
+import { formatMessage } from "./formatMessage";
+import {
+  IMessageBundle,
+  IMessageBundles,
+  IMessageCatalogOptions,
+} from "./model";
+
+/**
+ * Validation messages by locale.
+ *
+ * Messages are looked up in the current locale, then in its language (`"es"` for `"es-PE"`) and
+ * then in the fallback locale. The English defaults are always available under `"en"`.
+ *
+ * ```ts
+ * const catalog = new MessageCatalog({
+ *   locale: "es",
+ *   bundles: { es: { required: "Campo obligatorio.", minlength: "Mínimo {requiredLength}." } },
+ * });
+ * catalog.format("minlength", { requiredLength: 3, actualLength: 1 }); // "Mínimo 3."
+ * catalog.setLocale("en");
+ * ```
+ */
+export class MessageCatalog {
+  locale$: Observable<string>;
+
+  private _locale$: BehaviorSubject<string>;
+  private _bundles: IMessageBundles = { en: { ...DEFAULT_MESSAGES_EN } };
+  private _fallbackLocale: string;
+
+  constructor(options: IMessageCatalogOptions) {
+    this._locale$ = new BehaviorSubject(options.locale);
+    this.locale$ = this._locale$.pipe(distinctUntilChanged());
+    this._fallbackLocale = options.fallbackLocale || "en";
+    const bundles = options.bundles || {};
+    Object.keys(bundles).forEach((locale) =>
+      this.addBundle(locale, bundles[locale])
+    );
+
+    this.setLocale = this.setLocale.bind(this);
+    this.format = this.format.bind(this);
+  }
+
+  get locale(): string {
+    return this._locale$.value;
+  }
+
+  setLocale(locale: string) {
+    this._locale$.next(locale);
+  }
+
+  /**
+   * Adds messages to a locale, replacing the existing ones with the same keys.
+   */
+  addBundle(locale: string, bundle: IMessageBundle) {
+    this._bundles[locale] = { ...this._bundles[locale], ...bundle };
+  }
+
+  /**
+   * Returns the message for an error key interpolated with its payload, or `undefined` when no
+   * locale has it.
+   */
+  format(errorKey: string, payload?: any): string | undefined {
+    const locale = this.locale;
+    const candidates = [locale, locale.split("-")[0], this._fallbackLocale];
+    for (const candidate of candidates) {
+      const bundle = this._bundles[candidate];
+      const message = bundle && bundle[errorKey];
+      if (message === undefined) continue;
+      return typeof message === "function"
+        ? message(payload)
+        : formatMessage(message, payload, locale);
+    }
+    return undefined;
+  }
+}
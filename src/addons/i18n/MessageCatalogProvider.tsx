@@ -0,0 +1,42 @@
+import React, { FC, useContext, useEffect, useState } from "react";
+import { MessageCatalog } from "./MessageCatalog";
+
+export interface IMessageCatalogContext {
+  catalog: MessageCatalog | null;
+  locale: string;
+}
+
+export const MessageCatalogContext =
+  React.createContext<IMessageCatalogContext>({
+    catalog: null,
+    locale: "",
+  });
+
+interface IMessageCatalogProviderProps {
+  catalog: MessageCatalog;
+}
+
+/**
+ * Makes a `MessageCatalog` the source of the validation messages of the controls below it.
+ * Changing the locale of the catalog renders the displayed messages again.
+ */
+export const MessageCatalogProvider: FC<IMessageCatalogProviderProps> = (
+  props
+) => {
+  const { catalog, children } = props;
+  const [locale, setLocale] = useState(catalog.locale);
+  useEffect(() => {
+    const subscription = catalog.locale$.subscribe(setLocale);
+    return () => subscription.unsubscribe();
+  }, [catalog]);
+
+  return (
+    <MessageCatalogContext.Provider value={{ catalog, locale }}>
+      {children}
+    </MessageCatalogContext.Provider>
+  );
+};
+
+export const useMessageCatalog = () => {
+  return useContext(MessageCatalogContext);
+};
@@ -0,0 +1,43 @@
+import { IMessageBundle } from "./model";
+
+/**
+ * English messages for the keys set by `Validators`, the standalone validators, schema adapters,
+ * `applyServerErrors` and the `parse` option of `FormControl`.
+ */
+export const DEFAULT_MESSAGES_EN: IMessageBundle = {
+  required: "This field is required.",
+  email: "Enter a valid email address.",
+  min: "Must be greater than or equal to {min}.",
+  max: "Must be less than or equal to {max}.",
+  minlength:
+    "Must have at least {requiredLength, plural, one {# character} other {# characters}}.",
+  maxlength:
+    "Must have at most {requiredLength, plural, one {# character} other {# characters}}.",
+  pattern: "Invalid format.",
+  url: "Enter a valid URL.",
+  integer: "Enter a whole number.",
+  decimal:
+    "Use at most {requiredPrecision, plural, =0 {no decimals} one {# decimal} other {# decimals}}.",
+  between: "Must be between {min} and {max}.",
+  oneof: "Select one of the allowed values.",
+  notoneof: "This value is not allowed.",
+  mindate: "The date must be on or after {min}.",
+  maxdate: "The date must be on or before {max}.",
+  daterange: "The date must be between {min} and {max}.",
+  creditcard: "Enter a valid card number.",
+  iban: "Enter a valid IBAN.",
+  phone: "Enter a phone number in international format, e.g. +14155552671.",
+  uuid: "Enter a valid UUID.",
+  json: "Enter valid JSON.",
+  filesize: "The file must not exceed {maxSize} bytes.",
+  filetype: "This file type is not allowed.",
+  unique: "This value is already used.",
+  minitems:
+    "Add at least {requiredItems, plural, one {# item} other {# items}}.",
+  maxitems:
+    "Add at most {requiredItems, plural, one {# item} other {# items}}.",
+  asyncTimeout: "The validation took too long. Try again.",
+  parse: "Enter a valid value.",
+  schema: (message: string) => message,
+  serverErrors: (messages: string[]) => messages.join(" "),
+};
@@ -0,0 +1,93 @@
+/**
+ * Interpolates a message with a subset of the ICU message syntax:
+ * - `{name}` is replaced with `values.name`; dotted names such as `{actual.length}` are allowed.
+ *   Dates are formatted for `locale`.
+ * - `{count, plural, =0 {none} one {# item} other {# items}}` picks the branch of the plural
+ *   category of `values.count` in `locale`, and `#` inside it is replaced with the number.
+ *
+ * Placeholders without a value are left untouched.
+ */
+export function formatMessage(
+  message: string,
+  values: any,
+  locale: string
+): string {
+  let result = "";
+  let i = 0;
+  while (i < message.length) {
+    const start = message.indexOf("{", i);
+    if (start === -1) break;
+    const end = findClosingBrace(message, start);
+    if (end === -1) break;
+    result +=
+      message.slice(i, start) +
+      formatArgument(message.slice(start + 1, end), values, locale);
+    i = end + 1;
+  }
+  return result + message.slice(i);
+}
+
+function formatArgument(argument: string, values: any, locale: string) {
+  const plural = /^\s*([\w.]+)\s*,\s*plural\s*,([\s\S]*)$/.exec(argument);
+  const name = plural ? plural[1] : argument.trim();
+  const value = getValue(values, name);
+  if (value === undefined) return `{${argument}}`;
+  if (!plural) {
+    return value instanceof Date
+      ? value.toLocaleDateString(locale)
+      : `${value}`;
+  }
+
+  const count = Number(value);
+  const branches = parseBranches(plural[2]);
+  const branch =
+    branches[`=${count}`] ??
+    branches[getPluralCategory(count, locale)] ??
+    branches.other;
+  if (branch === undefined) return `${value}`;
+  return formatMessage(branch, values, locale).replace(
+    /#/g,
+    count.toLocaleString(locale)
+  );
+}
+
+function parseBranches(source: string): { [selector: string]: string } {
+  const branches: { [selector: string]: string } = {};
+  let i = 0;
+  while (i < source.length) {
+    const start = source.indexOf("{", i);
+    if (start === -1) break;
+    const end = findClosingBrace(source, start);
+    if (end === -1) break;
+    const selector = source.slice(i, start).trim();
+    branches[selector] = source.slice(start + 1, end);
+    i = end + 1;
+  }
+  return branches;
+}
+
+function findClosingBrace(source: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === "{") depth++;
+    if (source[i] === "}" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function getValue(values: any, name: string): any {
+  return name
+    .split(".")
+    .reduce(
+      (value, key) =>
+        value !== null && typeof value === "object" ? value[key] : undefined,
+      values
+    );
+}
+
+function getPluralCategory(count: number, locale: string): string {
+  if (typeof Intl !== "undefined" && Intl.PluralRules) {
+    return new Intl.PluralRules(locale).select(count);
+  }
+  return count === 1 ? "one" : "other";
+}
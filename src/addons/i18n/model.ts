@@ -0,0 +1,20 @@
+/**
+ * Messages of one locale by error key. Strings are interpolated with the error payload, e.g.
+ * `"At least {requiredLength} characters"`; functions receive the payload.
+ */
+export interface IMessageBundle {
+  [errorKey: string]: string | ((payload: any) => string);
+}
+
+export interface IMessageBundles {
+  [locale: string]: IMessageBundle;
+}
+
+export interface IMessageCatalogOptions {
+  locale: string;
+  /**
+   * Locale used for the keys missing in `locale`. Defaults to `"en"`.
+   */
+  fallbackLocale?: string;
+  bundles?: IMessageBundles;
+}
@@ -0,0 +1,129 @@
+import { ValidatorFn } from "../../directives/validators";
+import { AbstractControl } from "../../model/abstract_model";
+import { FormArray } from "../../model/form_array";
+import { FormControl } from "../../model/form_control";
+import { FormGroup } from "../../model/form_group";
+import { Validators } from "../../validators";
+import { IFromJsonSchemaOptions, IJsonSchema, JsonSchemaType } from "./model";
+
+/**
+ * Builds the `AbstractControl` tree described by a JSON Schema document.
+ *
+ * Objects become `FormGroup`s, arrays become `FormArray`s and every other type becomes a
+ * `FormControl`. The `required`, `minLength`, `maxLength`, `minimum`, `maximum`, `pattern` and
+ * `format: "email"` keywords are mapped onto the matching `Validators`.
+ *
+ * ```ts
+ * const form = fromJsonSchema(
+ *   {
+ *     type: "object",
+ *     required: ["name"],
+ *     properties: {
+ *       name: { type: "string", maxLength: 50 },
+ *       tags: { type: "array", items: { type: "string" } },
+ *     },
+ *   },
+ *   { value: { name: "Jhon", tags: ["a", "b"] } }
+ * );
+ * ```
+ */
+export function fromJsonSchema(
+  schema: IJsonSchema,
+  options: IFromJsonSchemaOptions = {}
+): AbstractControl {
+  return createControl(schema, options.value, false, options);
+}
+
+function createControl(
+  schema: IJsonSchema,
+  value: any,
+  required: boolean,
+  options: IFromJsonSchemaOptions
+): AbstractControl {
+  const type = getSchemaType(schema);
+  const controlOptions = {
+    ...options.controlOptions,
+    // `required` only names the keys that must be present, so it is enforced on scalars alone.
+    validators: getValidators(
+      schema,
+      required && type !== "object" && type !== "array"
+    ),
+  };
+
+  switch (type) {
+    case "object": {
+      const properties = schema.properties || {};
+      const requiredKeys = schema.required || [];
+      const data = value != null && typeof value === "object" ? value : {};
+      const controls = Object.keys(properties).reduce((acc, key) => {
+        acc[key] = createControl(
+          properties[key],
+          data[key],
+          requiredKeys.indexOf(key) > -1,
+          options
+        );
+        return acc;
+      }, {} as { [key: string]: AbstractControl });
+      return new FormGroup(controls, controlOptions);
+    }
+    case "array": {
+      const items = Array.isArray(value)
+        ? value
+        : Array.isArray(schema.default)
+        ? schema.default
+        : [];
+      const itemSchema = schema.items || {};
+      return new FormArray(
+        items.map((item: any) =>
+          createControl(itemSchema, item, false, options)
+        ),
+        controlOptions
+      );
+    }
+    default:
+      return new FormControl(
+        value !== undefined ? value : getDefault(schema),
+        controlOptions
+      );
+  }
+}
+
+function getSchemaType(schema: IJsonSchema): JsonSchemaType | undefined {
+  const types = Array.isArray(schema.type)
+    ? schema.type.filter((type) => type !== "null")
+    : schema.type
+    ? [schema.type]
+    : [];
+  if (types.length) return types[0];
+  if (schema.properties) return "object";
+  if (schema.items) return "array";
+  return undefined;
+}
+
+function getDefault(schema: IJsonSchema): any {
+  return schema.default !== undefined ? schema.default : null;
+}
+
+function getValidators(schema: IJsonSchema, required: boolean): ValidatorFn[] {
+  const validators: ValidatorFn[] = [];
+  if (required) validators.push(Validators.required);
+  if (typeof schema.minLength === "number") {
+    validators.push(Validators.minLength(schema.minLength));
+  }
+  if (typeof schema.maxLength === "number") {
+    validators.push(Validators.maxLength(schema.maxLength));
+  }
+  if (typeof schema.minimum === "number") {
+    validators.push(Validators.min(schema.minimum));
+  }
+  if (typeof schema.maximum === "number") {
+    validators.push(Validators.max(schema.maximum));
+  }
+  if (schema.pattern) {
+    // JSON Schema patterns are not implicitly anchored, unlike string patterns given to
+    // `Validators.pattern`.
+    validators.push(Validators.pattern(new RegExp(schema.pattern)));
+  }
+  if (schema.format === "email") validators.push(Validators.email);
+  return validators;
+}
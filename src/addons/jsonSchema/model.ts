@@ -0,0 +1,37 @@
+import { AbstractControlOptions } from "../../exports";
+
+export type JsonSchemaType =
+  | "object"
+  | "array"
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null";
+
+export interface IJsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: { [key: string]: IJsonSchema };
+  items?: IJsonSchema;
+  required?: string[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  format?: string;
+  default?: any;
+  [keyword: string]: any;
+}
+
+export interface IFromJsonSchemaOptions {
+  /**
+   * Initial data for the form. Arrays in the data decide how many elements are created for
+   * each `FormArray`; scalar values take precedence over the schema `default`.
+   */
+  value?: any;
+  /**
+   * Options applied to every created control, e.g. `{ updateOn: "blur" }`.
+   */
+  controlOptions?: Omit<AbstractControlOptions, "validators">;
+}
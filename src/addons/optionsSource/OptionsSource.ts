@@ -0,0 +1,120 @@
+import { from, merge, Observable, of, Subscription } from "rxjs";
+import { debounceTime, tap } from "rxjs/operators";
+import { ModuleUtils } from "../../core/utils/lang";
+import { LruCache } from "../../core/utils/lru_cache";
+import { AbstractControl } from "../../model/abstract_model";
+import { IOptionsSourceConfig } from "./model";
+
+/**
+ * Loads the options of a control, like the cities of a select, through its `load`
+ * `AsyncProcessor`. Created by the `optionsSource` option of `FormControl`.
+ *
+ * The options are loaded when the control is attached to its parent and again when a control of
+ * `deps` changes. A control without parent loads them with `load()`. A load in flight is
+ * cancelled by the next one, and the options of the last `deps` values are cached.
+ *
+ * ```ts
+ * const address = new FormGroup({
+ *   country: new FormControl("PE"),
+ *   city: new FormControl(null, {
+ *     optionsSource: {
+ *       deps: ["country"],
+ *       loader: ([country]) => fetchCities(country),
+ *     },
+ *   }),
+ * });
+ * ```
+ */
+export class OptionsSource<TOption = any> {
+  private _cache: LruCache<string, TOption[]>;
+  private _subscription: Subscription | null = null;
+
+  constructor(
+    public readonly control: AbstractControl,
+    private config: IOptionsSourceConfig<TOption>
+  ) {
+    this._cache = new LruCache(
+      config.cacheSize === undefined ? 10 : config.cacheSize
+    );
+    this.reload = this.reload.bind(this);
+  }
+
+  /**
+   * Options of the last successful load.
+   */
+  get options(): TOption[] {
+    return this.control.load.data || [];
+  }
+
+  get loading(): boolean {
+    return this.control.load.status === "PROCESSING";
+  }
+
+  /**
+   * Watches the `deps` resolved against the parent of the control and loads the options.
+   * Nothing is loaded while a dependency can't be resolved.
+   * @internal
+   */
+  bind() {
+    this.destroy();
+    const sources = this._resolveDeps();
+    if (!sources) return;
+    const { debounceTime: time = 300 } = this.config;
+    this._subscription = merge(...sources.map((source) => source.valueChanges))
+      .pipe(debounceTime(time))
+      .subscribe(() => this.load());
+    this.load();
+  }
+
+  /**
+   * Loads the options for the current `deps` values, from the cache when possible.
+   */
+  load() {
+    this._load(false);
+  }
+
+  /**
+   * Loads the options for the current `deps` values, skipping the cache.
+   */
+  reload() {
+    this._load(true);
+  }
+
+  destroy() {
+    this._subscription && this._subscription.unsubscribe();
+    this._subscription = null;
+  }
+
+  private _load(force: boolean) {
+    const sources = this._resolveDeps();
+    if (!sources) return;
+    const values = sources.map((source) => source.getRawValue());
+    const key = JSON.stringify(values);
+    const cached = this._cache.get(key);
+    if (!force && cached) {
+      this.control.load.run(of(cached), values);
+      return;
+    }
+    this.control.load.run(() => {
+      const options = this.config.loader(values, this.control.parent);
+      const options$ = ModuleUtils.isPromise(options)
+        ? from(options)
+        : ModuleUtils.isObservable(options)
+        ? (options as Observable<TOption[]>)
+        : of(options);
+      return options$.pipe(
+        tap((loaded) => this._cache.maxSize && this._cache.set(key, loaded))
+      );
+    }, values);
+  }
+
+  private _resolveDeps(): AbstractControl[] | null {
+    const { deps = [] } = this.config;
+    const parent = this.control.parent;
+    if (deps.length && !parent) return null;
+    const sources = deps.map((path) => parent!.get(path as any));
+    return sources.every((source) => !!source)
+      ? (sources as AbstractControl[])
+      : null;
+  }
+}
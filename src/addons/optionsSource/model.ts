@@ -0,0 +1,25 @@
+import { Observable } from "rxjs";
+import { AbstractControl } from "../../model/abstract_model";
+
+export interface IOptionsSourceConfig<TOption = any> {
+  /**
+   * Receives the raw values of `deps`, in the same order, and the parent of the control.
+   */
+  loader: (
+    values: any[],
+    parent: AbstractControl | null
+  ) => TOption[] | Promise<TOption[]> | Observable<TOption[]>;
+  /**
+   * Paths of the controls the options depend on, relative to the parent of the control. The
+   * options are loaded again when any of them changes.
+   */
+  deps?: Array<string | Array<string | number>>;
+  /**
+   * Milliseconds to wait after a change of `deps` before loading. Defaults to `300`.
+   */
+  debounceTime?: number;
+  /**
+   * Number of `deps` values whose options are kept. Defaults to `10`; `0` disables the cache.
+   */
+  cacheSize?: number;
+}
@@ -0,0 +1,137 @@
+import { Subscription } from "rxjs";
+import { debounceTime } from "rxjs/operators";
+import { AbstractControl } from "../../model/abstract_model";
+import { getFormChanges } from "../formChanges/formChanges";
+import { FormConfig } from "../WForm/useForm";
+import { MemoryFormStorage } from "./MemoryFormStorage";
+import { IFormPersistenceOptions, IFormStorage } from "./model";
+
+/**
+ * Saves a draft of a form into a storage while the user edits it, and restores it later.
+ *
+ * Attached to a `FormConfig`, the draft is restored every time `loadSucceed` creates the form.
+ * Attached to an `AbstractControl`, it is restored right away. Restored fields that differ from
+ * the loaded value are marked as dirty. The draft is restored with `patchValue`, so `FormArray`
+ * elements missing from the form are not created.
+ *
+ * ```ts
+ * const persistence = new FormPersistence(formConfig, {
+ *   key: "customer-form",
+ *   storage: sessionStorage,
+ *   exclude: ["account.password"],
+ * });
+ * // once saved
+ * persistence.discardDraft();
+ * ```
+ */
+export class FormPersistence {
+  readonly storage: IFormStorage;
+
+  private _control: AbstractControl | null = null;
+  private _valueSubscription: Subscription | null = null;
+  private _loadedSubscription: Subscription | null = null;
+
+  constructor(
+    target: FormConfig | AbstractControl,
+    private options: IFormPersistenceOptions
+  ) {
+    this.storage =
+      options.storage ||
+      (typeof localStorage !== "undefined"
+        ? localStorage
+        : new MemoryFormStorage());
+
+    this.discardDraft = this.discardDraft.bind(this);
+
+    if (target instanceof AbstractControl) {
+      this._attach(target);
+    } else {
+      this._loadedSubscription = target.formLoaded$.subscribe((form) =>
+        this._attach(form)
+      );
+      if (target.form) this._attach(target.form);
+    }
+  }
+
+  hasDraft(): boolean {
+    return this.storage.getItem(this.options.key) !== null;
+  }
+
+  /**
+   * Removes the stored draft, dropping any pending write. The form keeps its current value.
+   */
+  discardDraft() {
+    this.storage.removeItem(this.options.key);
+    if (this._control) this._subscribe(this._control);
+  }
+
+  /**
+   * Patches the form with the stored draft, if any.
+   */
+  restoreDraft() {
+    const control = this._control;
+    const draft = this._readDraft();
+    if (!control || draft === undefined) return;
+
+    const loaded = control.getRawValue();
+    control.patchValue(draft);
+    getFormChanges(control, { compareWith: loaded, includeDisabled: true })
+      .filter((change) => change.op === "replace")
+      .forEach((change) => {
+        const changed = change.path.length ? control.get(change.path) : control;
+        changed && changed.markAsDirty();
+      });
+  }
+
+  destroy() {
+    this._valueSubscription && this._valueSubscription.unsubscribe();
+    this._loadedSubscription && this._loadedSubscription.unsubscribe();
+    this._control = null;
+  }
+
+  private _attach(control: AbstractControl) {
+    this._control = control;
+    this.restoreDraft();
+    this._subscribe(control);
+  }
+
+  private _subscribe(control: AbstractControl) {
+    this._valueSubscription && this._valueSubscription.unsubscribe();
+    const { debounceTime: time = 500 } = this.options;
+    this._valueSubscription = control.valueChanges
+      .pipe(debounceTime(time))
+      .subscribe(() => this._writeDraft(control));
+  }
+
+  private _writeDraft(control: AbstractControl) {
+    const draft = JSON.parse(JSON.stringify(control.getRawValue()));
+    (this.options.exclude || []).forEach((path) =>
+      removePath(draft, path.split("."))
+    );
+    this.storage.setItem(this.options.key, JSON.stringify(draft));
+  }
+
+  private _readDraft(): any {
+    const stored = this.storage.getItem(this.options.key);
+    if (stored === null) return undefined;
+    try {
+      return JSON.parse(stored);
+    } catch (error) {
+      this.storage.removeItem(this.options.key);
+      return undefined;
+    }
+  }
+}
+
+function removePath(value: any, path: string[]) {
+  if (value === null || typeof value !== "object") return;
+  const [key, ...rest] = path;
+  const keys = key === "*" ? Object.keys(value) : [key];
+  keys.forEach((k) => {
+    if (rest.length) {
+      removePath(value[k], rest);
+    } else if (!Array.isArray(value)) {
+      delete value[k];
+    }
+  });
+}
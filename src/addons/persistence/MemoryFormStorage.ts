@@ -0,0 +1,20 @@
+import { IFormStorage } from "./model";
+
+/**
+ * In-memory `IFormStorage`, for tests and platforms without Web Storage.
+ */
+export class MemoryFormStorage implements IFormStorage {
+  private _items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this._items.has(key) ? this._items.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this._items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this._items.delete(key);
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Storage backend used by `FormPersistence`. `localStorage` and `sessionStorage` implement it.
+ */
+export interface IFormStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface IFormPersistenceOptions {
+  /**
+   * Storage key of the draft.
+   */
+  key: string;
+  /**
+   * Defaults to `localStorage` when available, otherwise to a `MemoryFormStorage`.
+   */
+  storage?: IFormStorage;
+  /**
+   * Milliseconds without changes before the draft is written. Defaults to `500`.
+   */
+  debounceTime?: number;
+  /**
+   * Paths of the controls that are never written to the storage, e.g. `"account.password"`.
+   * A `*` segment matches every key, e.g. `"cards.*.cvv"`.
+   */
+  exclude?: string[];
+}
@@ -0,0 +1,97 @@
+import { Subscription } from "rxjs";
+import { AbstractControl } from "../../model/abstract_model";
+import { FormRuleEffect, IFormRule } from "./model";
+
+const MAX_PASSES = 10;
+
+/**
+ * Applies declarative rules to the controls of a form, evaluating them again on every
+ * `valueChanges` of the root.
+ *
+ * Disabling goes through `disable()`, so disabled targets drop out of `value`. Rules can depend
+ * on each other: they are evaluated again until no effect changes anything.
+ *
+ * ```ts
+ * const rules = new FormRules(form, [
+ *   { target: "company", when: (value) => value.type !== "business", effect: "hide" },
+ *   { target: "taxId", when: (value) => value.type !== "business", effect: ["disable", "clear"] },
+ * ]);
+ * rules.destroy();
+ * ```
+ */
+export class FormRules {
+  private _subscription: Subscription;
+  private _matches = new Map<IFormRule, boolean>();
+  private _evaluating = false;
+
+  constructor(
+    public readonly root: AbstractControl,
+    private rules: IFormRule[]
+  ) {
+    this.evaluate();
+    this._subscription = root.valueChanges.subscribe(() => this.evaluate());
+  }
+
+  evaluate() {
+    if (this._evaluating) return;
+    this._evaluating = true;
+    try {
+      let changed = false;
+      for (let pass = 0; pass < MAX_PASSES; pass++) {
+        const value = this.root.getRawValue();
+        const passChanged = this.rules
+          .map((rule) => this._apply(rule, value))
+          .some((ruleChanged) => ruleChanged);
+        if (!passChanged) break;
+        changed = true;
+      }
+      changed && this.root.notifyChange();
+    } finally {
+      this._evaluating = false;
+    }
+  }
+
+  destroy() {
+    this._subscription.unsubscribe();
+  }
+
+  private _apply(rule: IFormRule, value: any): boolean {
+    const target = this.root.get(rule.target as any);
+    if (!target) return false;
+    const matches = !!rule.when(value, this.root);
+    const becameTrue = matches && !this._matches.get(rule);
+    this._matches.set(rule, matches);
+
+    const effects: FormRuleEffect[] = Array.isArray(rule.effect)
+      ? rule.effect
+      : [rule.effect];
+    return effects
+      .map((effect) => applyEffect(target, effect, matches, becameTrue))
+      .some((effectChanged) => effectChanged);
+  }
+}
+
+function applyEffect(
+  target: AbstractControl,
+  effect: FormRuleEffect,
+  matches: boolean,
+  becameTrue: boolean
+): boolean {
+  switch (effect) {
+    case "disable":
+    case "enable": {
+      const disabled = effect === "disable" ? matches : !matches;
+      if (target.disabled === disabled) return false;
+      disabled ? target.disable() : target.enable();
+      return true;
+    }
+    case "hide":
+      if (target.hidden === matches) return false;
+      target.setHidden(matches);
+      return true;
+    case "clear":
+      if (!becameTrue) return false;
+      target.reset();
+      return true;
+  }
+}
@@ -0,0 +1,21 @@
+import { AbstractControl } from "../../model/abstract_model";
+
+/**
+ * What a rule does to its target while the predicate holds:
+ * - `disable`/`enable`: the target is disabled/enabled, and the opposite otherwise.
+ * - `hide`: the target is hidden, and shown otherwise.
+ * - `clear`: the target is reset each time the predicate becomes true.
+ */
+export type FormRuleEffect = "disable" | "enable" | "hide" | "clear";
+
+export interface IFormRule {
+  /**
+   * Path of the affected control, relative to the root given to `FormRules`.
+   */
+  target: string | Array<string | number>;
+  /**
+   * Receives the raw value of the root, so disabled controls are included.
+   */
+  when: (value: any, root: AbstractControl) => boolean;
+  effect: FormRuleEffect | FormRuleEffect[];
+}
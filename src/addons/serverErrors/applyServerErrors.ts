@@ -0,0 +1,153 @@
+import { AbstractControl } from "../../model/abstract_model";
+import { isEqual } from "../utils/isEqual";
+import {
+  IApplyServerErrorsOptions,
+  IServerErrorMessages,
+  ServerErrorParser,
+} from "./model";
+
+/**
+ * Error key under which server messages are set, with the list of messages as value.
+ */
+export const SERVER_ERRORS = "serverErrors";
+
+/**
+ * Sets the messages of a server error payload as `serverErrors` on the matching controls.
+ *
+ * The errors of a control last until its value changes, which for a `FormGroup` or `FormArray`
+ * includes the changes of its children, or until `clearServerErrors` is called, which the submit
+ * of `useFormConfig` does. Messages whose path matches no control are returned, so they can be
+ * displayed elsewhere.
+ *
+ * ```ts
+ * applyServerErrors(form, {
+ *   type: "https://example.net/validation-error",
+ *   "invalid-params": [{ name: "age", reason: "must be a positive integer" }],
+ * });
+ * form.get("age").errors; // { serverErrors: ["must be a positive integer"] }
+ * ```
+ */
+export function applyServerErrors(
+  control: AbstractControl,
+  payload: any,
+  options: IApplyServerErrorsOptions = {}
+): IServerErrorMessages {
+  const { parser = parseServerErrors } = options;
+  const messages = parser(payload) || {};
+  const unmatched: IServerErrorMessages = {};
+
+  Object.keys(messages).forEach((path) => {
+    const keys = parseServerErrorPath(path);
+    const target = keys.length ? control.get(keys) : control;
+    if (!target) {
+      unmatched[path] = messages[path];
+      return;
+    }
+    target.setErrors({ ...target.errors, [SERVER_ERRORS]: messages[path] });
+    keepServerErrors(target, messages[path]);
+  });
+  return unmatched;
+}
+
+/**
+ * Removes the `serverErrors` set by `applyServerErrors` on `control` and its descendants.
+ */
+export function clearServerErrors(control: AbstractControl) {
+  control._forEachChild((child: AbstractControl) => clearServerErrors(child));
+  keptErrors.delete(control);
+  if (!control.errors || !(SERVER_ERRORS in control.errors)) return;
+  const { [SERVER_ERRORS]: _, ...errors } = control.errors;
+  control.setErrors(Object.keys(errors).length ? errors : null);
+}
+
+/**
+ * Server messages of each control, with its value when they were set.
+ */
+const keptErrors = new WeakMap<
+  AbstractControl,
+  { messages: string[]; value: any }
+>();
+const watched = new WeakSet<AbstractControl>();
+
+/**
+ * Sets the messages again each time the validators of the control drop them, until its value
+ * changes or they are cleared.
+ */
+function keepServerErrors(control: AbstractControl, messages: string[]) {
+  keptErrors.set(control, { messages, value: control.value });
+  if (watched.has(control)) return;
+  watched.add(control);
+  control._onValidated((opts) => {
+    const kept = keptErrors.get(control);
+    if (!kept || !control.enabled) return;
+    if (control.errors && SERVER_ERRORS in control.errors) return;
+    if (!isEqual(control.value, kept.value)) {
+      keptErrors.delete(control);
+      return;
+    }
+    control.setErrors(
+      { ...control.errors, [SERVER_ERRORS]: kept.messages },
+      { emitEvent: opts.emitEvent !== false }
+    );
+  });
+}
+
+/**
+ * Parses the common server error shapes:
+ * - a map of messages: `{ "email": ["Already taken"] }`, values may be single strings.
+ * - the same map in `errors`, as in ASP.NET validation problem details.
+ * - RFC 7807 problem details with `invalid-params`: `[{ name, reason }]`.
+ * - a list, or a list in `errors`: `[{ field | path | name | pointer, message | reason | detail }]`.
+ */
+export const parseServerErrors: ServerErrorParser = (payload) => {
+  if (!payload || typeof payload !== "object") return null;
+  if (Array.isArray(payload)) return parseList(payload);
+  if (Array.isArray(payload["invalid-params"])) {
+    return parseList(payload["invalid-params"]);
+  }
+  if (payload.errors && typeof payload.errors === "object") {
+    return parseServerErrors(payload.errors);
+  }
+  const keys = Object.keys(payload);
+  if (!keys.every((key) => isMessages(payload[key]))) return null;
+  return keys.reduce((acc, key) => {
+    acc[key] = toMessages(payload[key]);
+    return acc;
+  }, {} as IServerErrorMessages);
+};
+
+function parseList(items: any[]): IServerErrorMessages | null {
+  const messages: IServerErrorMessages = {};
+  for (const item of items) {
+    if (!item || typeof item !== "object") return null;
+    const path = item.field ?? item.path ?? item.name ?? item.pointer ?? "";
+    const message = item.message ?? item.reason ?? item.detail;
+    if (typeof message !== "string") return null;
+    const key = Array.isArray(path) ? path.join(".") : `${path}`;
+    messages[key] = [...(messages[key] || []), message];
+  }
+  return messages;
+}
+
+function isMessages(value: any): boolean {
+  return (
+    typeof value === "string" ||
+    (Array.isArray(value) && value.every((item) => typeof item === "string"))
+  );
+}
+
+function toMessages(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function parseServerErrorPath(path: string): Array<string | number> {
+  const keys = /^#?\//.test(path)
+    ? path
+        .replace(/^#?\//, "")
+        .split("/")
+        .map((key) => key.replace(/~1/g, "/").replace(/~0/g, "~"))
+    : path.replace(/\[(\d+)\]/g, ".$1").split(".");
+  return keys
+    .filter((key) => key !== "")
+    .map((key) => (/^\d+$/.test(key) ? Number(key) : key));
+}
@@ -0,0 +1,20 @@
+/**
+ * Server messages by control path. Paths are dotted (`"lines.0.qty"`, `"lines[0].qty"`) or JSON
+ * pointers (`"/lines/0/qty"`); an empty path targets the control the errors are applied to.
+ */
+export interface IServerErrorMessages {
+  [path: string]: string[];
+}
+
+/**
+ * Extracts the messages from a server error payload, or returns `null` when the payload has an
+ * unknown shape.
+ */
+export type ServerErrorParser = (payload: any) => IServerErrorMessages | null;
+
+export interface IApplyServerErrorsOptions {
+  /**
+   * Defaults to `parseServerErrors`, which understands the common shapes.
+   */
+  parser?: ServerErrorParser;
+}
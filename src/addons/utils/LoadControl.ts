@@ -1,22 +1,65 @@
+import {
+  BehaviorSubject,
+  defer,
+  from,
+  Observable,
+  Subject,
+  Subscription,
+} from "rxjs";
 import { STATUS } from "../..";
+import { ModuleUtils } from "../../core/utils/lang";
 
 export type AsyncProcessorProcessing = (params?: any) => void;
 export type AsyncProcessorSucceed = (data: any) => void;
 export type AsyncProcessorFailed = (error?: any) => void;
 
+export interface IAsyncProcessorTriggers {
+  processing: AsyncProcessorProcessing;
+  succeed: AsyncProcessorSucceed;
+  failed: AsyncProcessorFailed;
+}
+
+/**
+ * Work run by `AsyncProcessor.run`. A function receives the params and is called on subscription,
+ * so its synchronous errors are reported through `failed` too.
+ */
+export type AsyncProcessorSource<T = any> =
+  | Promise<T>
+  | Observable<T>
+  | ((params?: any) => Promise<T> | Observable<T>);
+
 export class AsyncProcessor {
   error: any;
   data: any;
   params: any;
   status: STATUS = "";
 
+  /**
+   * Emits the current status and every change of it.
+   */
+  status$: Observable<STATUS>;
+  private _status$ = new BehaviorSubject<STATUS>("");
+
+  /**
+   * Emits the data of every `succeed`.
+   */
+  data$: Observable<any>;
+  private _data$ = new Subject<any>();
+
+  private _runSubscription: Subscription | null = null;
+  private _statusBeforeRun: STATUS = "";
+
   constructor(private forceUpdate?: () => void) {
     this.processing = this.processing.bind(this);
     this.succeed = this.succeed.bind(this);
     this.failed = this.failed.bind(this);
+    this.run = this.run.bind(this);
+    this.cancel = this.cancel.bind(this);
+    this.status$ = this._status$.asObservable();
+    this.data$ = this._data$.asObservable();
   }
 
-  get triggers() {
+  get triggers(): IAsyncProcessorTriggers {
     return {
       processing: this.processing,
       succeed: this.succeed,
@@ -27,33 +70,96 @@ export class AsyncProcessor {
   processing: AsyncProcessorProcessing = (params?: any) => {
     this.params = params;
     this.status = "PROCESSING";
+    this._status$.next(this.status);
     const { forceUpdate } = this;
     forceUpdate && forceUpdate();
   };
   succeed: AsyncProcessorSucceed = (data: any) => {
     this.data = data;
     this.status = "SUCCESS";
+    this._status$.next(this.status);
+    this._data$.next(data);
     const { forceUpdate } = this;
     forceUpdate && forceUpdate();
   };
   failed: AsyncProcessorFailed = (error: any) => {
     this.error = error;
     this.status = "FAILURE";
+    this._status$.next(this.status);
     const { forceUpdate } = this;
     forceUpdate && forceUpdate();
   };
 
-  retry(
-    callback: (
-      triggers: {
-        processing: AsyncProcessorProcessing;
-        succeed: AsyncProcessorSucceed;
-        failed: AsyncProcessorFailed;
+  /**
+   * Runs a Promise or Observable, calling `processing`, then `succeed` for every emitted value
+   * (or once with `undefined` when nothing is emitted) or `failed`. A run still in flight is
+   * cancelled, so only the latest one updates the processor.
+   *
+   * `triggers` replaces some of the triggers for this run.
+   *
+   * ```ts
+   * control.load.run((params) => fetchCities(params.country), { country: "PE" });
+   * ```
+   */
+  run<T = any>(
+    source: AsyncProcessorSource<T>,
+    params?: any,
+    triggers: Partial<IAsyncProcessorTriggers> = {}
+  ): Subscription {
+    const {
+      processing = this.processing,
+      succeed = this.succeed,
+      failed = this.failed,
+    } = triggers;
+    this._cancelRun();
+    this._statusBeforeRun = this.status;
+    processing(params);
+
+    let emitted = false;
+    const subscription = defer(() => {
+      const work = typeof source === "function" ? source(params) : source;
+      return ModuleUtils.isPromise(work) ? from(work) : work;
+    }).subscribe({
+      next: (data) => {
+        emitted = true;
+        succeed(data);
+      },
+      error: (error) => {
+        this._runSubscription = null;
+        failed(error);
+      },
+      complete: () => {
+        this._runSubscription = null;
+        !emitted && succeed(undefined);
       },
-      data: any
-    ) => void,
+    });
+    if (!subscription.closed) this._runSubscription = subscription;
+    return subscription;
+  }
+
+  /**
+   * Cancels the run in flight, if any, restoring the status it had before the run started.
+   */
+  cancel() {
+    if (!this._cancelRun()) return;
+    this.status = this._statusBeforeRun;
+    this._status$.next(this.status);
+    const { forceUpdate } = this;
+    forceUpdate && forceUpdate();
+  }
+
+  retry(
+    callback: (triggers: IAsyncProcessorTriggers, data: any) => void,
     params?: any
   ) {
     callback(this.triggers, params || this.params);
   }
+
+  private _cancelRun(): boolean {
+    const subscription = this._runSubscription;
+    if (!subscription) return false;
+    this._runSubscription = null;
+    subscription.unsubscribe();
+    return true;
+  }
 }
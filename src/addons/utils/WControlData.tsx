@@ -1,9 +1,19 @@
-import React, { FC } from "react";
+import React, { FC, useCallback } from "react";
 import { useControlContext } from "../WControlProvider/ControlContext";
+import { useSyncExternalStore } from "../hooks/useSyncExternalStore";
 
 export const WControlData: FC = () => {
   const { control } = useControlContext();
-  const data = control && control.value;
+  // The value of a group changes without notifying it, see `AbstractControl.notifyChange`.
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      if (!control) return () => {};
+      const subscription = control.valueChanges.subscribe(onChange);
+      return () => subscription.unsubscribe();
+    },
+    [control]
+  );
+  const data = useSyncExternalStore(subscribe, () => control && control.value);
   return (
     <pre>
       {data !== undefined ? JSON.stringify(data, null, 2) : "No control found"}
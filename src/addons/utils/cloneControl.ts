@@ -0,0 +1,40 @@
+import { AbstractControl } from "../../model/abstract_model";
+import { FormArray } from "../../model/form_array";
+import { FormControl } from "../../model/form_control";
+import { FormGroup } from "../../model/form_group";
+
+/**
+ * Creates a control tree with the structure, raw values, disabled state, validators, `updateOn`
+ * and the `parse` and `format` options of `control`. Interaction flags (`dirty`, `touched`), the
+ * text being edited (`viewValue`) and the `computed` and `optionsSource` options are not copied.
+ */
+export function cloneControl<T extends AbstractControl>(control: T): T {
+  const options = {
+    validators: control.validator,
+    asyncValidators: control.asyncValidator,
+    updateOn: control.updateOn,
+  };
+  let clone: AbstractControl;
+  if (control instanceof FormGroup) {
+    const controls: { [key: string]: AbstractControl } = {};
+    Object.keys(control.controls).forEach((key) => {
+      controls[key] = cloneControl(control.controls[key]);
+    });
+    clone = new FormGroup(controls, options);
+  } else if (control instanceof FormArray) {
+    clone = new FormArray(
+      control.controls.map((child) => cloneControl(child)),
+      options
+    );
+  } else {
+    const { _parse: parse, _format: format } =
+      control as AbstractControl as FormControl;
+    clone = new FormControl(control.getRawValue(), {
+      ...options,
+      parse: parse || undefined,
+      format: format || undefined,
+    });
+  }
+  if (control.disabled) clone.disable({ emitEvent: false });
+  return clone as T;
+}
@@ -0,0 +1,33 @@
+/**
+ * Map that keeps at most `maxSize` entries, dropping the least recently used one first.
+ */
+export class LruCache<K, V> {
+  private _entries = new Map<K, V>();
+
+  constructor(readonly maxSize: number) {}
+
+  has(key: K): boolean {
+    return this._entries.has(key);
+  }
+
+  get(key: K): V | undefined {
+    if (!this._entries.has(key)) return undefined;
+    const value = this._entries.get(key)!;
+    // Re-inserting moves the entry to the end of the iteration order.
+    this._entries.delete(key);
+    this._entries.set(key, value);
+    return value;
+  }
+
+  set(key: K, value: V): void {
+    this._entries.delete(key);
+    this._entries.set(key, value);
+    if (this._entries.size > this.maxSize) {
+      this._entries.delete(this._entries.keys().next().value);
+    }
+  }
+
+  clear(): void {
+    this._entries.clear();
+  }
+}
@@ -5,6 +5,9 @@ export * from "./addons/hooks/useFormGroup/useFormGroup";
 export * from "./addons/hooks/useFormGroup/model";
 export * from "./addons/hooks/useDestroy$";
 export * from "./validators";
+export * from "./extra_validators";
+export * from "./parsers";
+export * from "./form_builder";
 
 export * from "./model/abstract_model";
 export * from "./model/form_array";
@@ -32,3 +35,47 @@ export * from "./directives/reactive_errors";
 export * from "./directives/error_examples";
 
 export * from "./addons/WForm/WReactNativeForm";
+
+export * from "./addons/jsonSchema/model";
+export * from "./addons/jsonSchema/fromJsonSchema";
+
+export * from "./addons/history/model";
+export * from "./addons/history/FormHistory";
+
+export * from "./addons/formChanges/model";
+export * from "./addons/formChanges/formChanges";
+
+export * from "./addons/persistence/model";
+export * from "./addons/persistence/MemoryFormStorage";
+export * from "./addons/persistence/FormPersistence";
+
+export * from "./addons/rules/model";
+export * from "./addons/rules/FormRules";
+
+export * from "./addons/serverErrors/model";
+export * from "./addons/serverErrors/applyServerErrors";
+
+export * from "./addons/i18n/model";
+export * from "./addons/i18n/formatMessage";
+export * from "./addons/i18n/defaultMessages";
+export * from "./addons/i18n/MessageCatalog";
+export * from "./addons/i18n/MessageCatalogProvider";
+export * from "./addons/errorDisplay/model";
+export * from "./addons/errorDisplay/shouldDisplayErrors";
+export * from "./addons/focus/model";
+export * from "./addons/focus/focusFirstInvalid";
+export * from "./addons/focus/useFocusRef";
+export * from "./addons/optionsSource/model";
+export * from "./addons/optionsSource/OptionsSource";
+export * from "./addons/utils/cloneControl";
+export * from "./addons/WFormArrayElement/arrayElementHelpers";
+export * from "./addons/hooks/useSyncExternalStore";
+export * from "./addons/hooks/useControlChanges";
+export * from "./addons/hooks/useFormSelector";
+export * from "./addons/field/model";
+export * from "./addons/field/valueAccessors";
+export * from "./addons/field/useField";
+export * from "./addons/controlAdapter/model";
+export * from "./addons/controlAdapter/controlAdapters";
+export * from "./addons/controlAdapter/useControlAdapter";
+export * from "./addons/controlAdapter/WBoundControl";
@@ -0,0 +1,360 @@
+/**
+ * Validators not provided by `Validators`. They are plain functions, so the unused ones are left
+ * out of the bundle. Like `Validators`, they don't validate empty values, to allow optional
+ * controls; combine them with `Validators.required` when needed.
+ */
+
+import { ValidationErrors, ValidatorFn } from "./directives/validators";
+import { AbstractControl } from "./model/abstract_model";
+import { FormArray } from "./model/form_array";
+
+function isEmptyInputValue(value: any): boolean {
+  return (
+    value == null ||
+    ((typeof value === "string" || Array.isArray(value)) && value.length === 0)
+  );
+}
+
+function toNumber(value: any): number {
+  return typeof value === "string" && value.trim() === "" ? NaN : Number(value);
+}
+
+function toDate(value: any): Date | null {
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const DECIMAL_REGEXP = /^[+-]?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Counts the decimal places of a number or numeric text, ignoring trailing zeros and applying
+ * the exponent, so `"1.50"` has 1 and `1e-7` has 7. Returns `NaN` for anything else.
+ */
+function countDecimals(value: any): number {
+  if (!isFinite(toNumber(value))) return NaN;
+  const match = DECIMAL_REGEXP.exec(`${value}`.trim());
+  if (!match) return NaN;
+  const fraction = (match[2] || "").replace(/0+$/, "");
+  return Math.max(0, fraction.length - Number(match[3] || 0));
+}
+
+const URL_REGEXP = /^(?:https?|ftp):\/\/[^\s/$.?#][^\s]*$/i;
+
+const E164_REGEXP = /^\+[1-9]\d{1,14}$/;
+
+const UUID_REGEXP =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const IBAN_REGEXP = /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/;
+
+/**
+ * Validator that requires the control's value to be an absolute `http`, `https` or `ftp` URL.
+ */
+export function urlValidator(
+  control: AbstractControl
+): ValidationErrors | null {
+  if (isEmptyInputValue(control.value)) return null;
+  return URL_REGEXP.test(control.value) ? null : { url: true };
+}
+
+/**
+ * Validator that requires the control's value to be an integer number.
+ */
+export function integerValidator(
+  control: AbstractControl
+): ValidationErrors | null {
+  if (isEmptyInputValue(control.value)) return null;
+  return Number.isInteger(toNumber(control.value)) ? null : { integer: true };
+}
+
+/**
+ * Validator that requires the control's value to be a number with at most `precision`
+ * decimal places. Trailing zeros are not counted, and numbers in exponent notation are supported.
+ */
+export function decimalValidator(precision: number): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    if (isEmptyInputValue(control.value)) return null;
+    const decimals = countDecimals(control.value);
+    return decimals <= precision
+      ? null
+      : {
+          decimal: { requiredPrecision: precision, actual: control.value },
+        };
+  };
+}
+
+/**
+ * Validator that requires the control's value to be a number between `min` and `max`,
+ * both included.
+ */
+export function betweenValidator(min: number, max: number): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    if (isEmptyInputValue(control.value)) return null;
+    const value = parseFloat(control.value);
+    return !isNaN(value) && (value < min || value > max)
+      ? { between: { min, max, actual: control.value } }
+      : null;
+  };
+}
+
+/**
+ * Validator that requires the control's value to be one of `values`.
+ */
+export function oneOfValidator(values: any[]): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    if (isEmptyInputValue(control.value)) return null;
+    return values.indexOf(control.value) > -1
+      ? null
+      : { oneof: { values, actual: control.value } };
+  };
+}
+
+/**
+ * Validator that requires the control's value not to be any of `values`.
+ */
+export function notOneOfValidator(values: any[]): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    if (isEmptyInputValue(control.value)) return null;
+    return values.indexOf(control.value) > -1
+      ? { notoneof: { values, actual: control.value } }
+      : null;
+  };
+}
+
+/**
+ * Validator that requires the control's value to be a date on or after `min`. Accepts `Date`
+ * objects, timestamps and date strings.
+ */
+export function minDateValidator(min: Date | string | number): ValidatorFn {
+  const minDate = toDate(min);
+  return (control: AbstractControl): ValidationErrors | null => {
+    if (isEmptyInputValue(control.value) || !minDate) return null;
+    const value = toDate(control.value);
+    return value && value < minDate
+      ? { mindate: { min: minDate, actual: control.value } }
+      : null;
+  };
+}
+
+/**
+ * Validator that requires the control's value to be a date on or before `max`. Accepts `Date`
+ * objects, timestamps and date strings.
+ */
+export function maxDateValidator(max: Date | string | number): ValidatorFn {
+  const maxDate = toDate(max);
+  return (control: AbstractControl): ValidationErrors | null => {
+    if (isEmptyInputValue(control.value) || !maxDate) return null;
+    const value = toDate(control.value);
+    return value && value > maxDate
+      ? { maxdate: { max: maxDate, actual: control.value } }
+      : null;
+  };
+}
+
+/**
+ * Validator that requires the control's value to be a date between `min` and `max`, both
+ * included. Accepts `Date` objects, timestamps and date strings.
+ */
+export function dateRangeValidator(
+  min: Date | string | number,
+  max: Date | string | number
+): ValidatorFn {
+  const minDate = toDate(min);
+  const maxDate = toDate(max);
+  return (control: AbstractControl): ValidationErrors | null => {
+    if (isEmptyInputValue(control.value)) return null;
+    const value = toDate(control.value);
+    return value &&
+      ((minDate && value < minDate) || (maxDate && value > maxDate))
+      ? { daterange: { min: minDate, max: maxDate, actual: control.value } }
+      : null;
+  };
+}
+
+/**
+ * Validator that requires the control's value to be a card number passing the Luhn checksum.
+ * Spaces and dashes are ignored.
+ */
+export function creditCardValidator(
+  control: AbstractControl
+): ValidationErrors | null {
+  if (isEmptyInputValue(control.value)) return null;
+  const digits = `${control.value}`.replace(/[\s-]/g, "");
+  if (!/^\d{12,19}$/.test(digits)) return { creditcard: true };
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0 ? null : { creditcard: true };
+}
+
+/**
+ * Validator that requires the control's value to be an IBAN with a valid checksum. Spaces are
+ * ignored.
+ */
+export function ibanValidator(
+  control: AbstractControl
+): ValidationErrors | null {
+  if (isEmptyInputValue(control.value)) return null;
+  const iban = `${control.value}`.replace(/\s/g, "").toUpperCase();
+  if (!IBAN_REGEXP.test(iban)) return { iban: true };
+  // The country code and check digits are moved to the end, and letters are replaced by
+  // numbers (A = 10 ... Z = 35). The remainder is computed digit by digit to avoid overflows.
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char.charCodeAt(0);
+    const value = code >= 65 ? `${code - 55}` : char;
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1 ? null : { iban: true };
+}
+
+/**
+ * Validator that requires the control's value to be a phone number in E.164 format, such as
+ * `+14155552671`.
+ */
+export function phoneValidator(
+  control: AbstractControl
+): ValidationErrors | null {
+  if (isEmptyInputValue(control.value)) return null;
+  return E164_REGEXP.test(control.value) ? null : { phone: true };
+}
+
+/**
+ * Validator that requires the control's value to be a UUID.
+ */
+export function uuidValidator(
+  control: AbstractControl
+): ValidationErrors | null {
+  if (isEmptyInputValue(control.value)) return null;
+  return UUID_REGEXP.test(control.value) ? null : { uuid: true };
+}
+
+/**
+ * Validator that requires the control's value to be a string with valid JSON.
+ */
+export function jsonValidator(
+  control: AbstractControl
+): ValidationErrors | null {
+  if (isEmptyInputValue(control.value)) return null;
+  try {
+    JSON.parse(control.value);
+    return null;
+  } catch (error) {
+    return { json: true };
+  }
+}
+
+function toFiles(
+  value: any
+): Array<{ size: number; type: string; name?: string }> {
+  if (value == null) return [];
+  if (Array.isArray(value)) return value;
+  if (typeof value.length === "number" && typeof value.item === "function") {
+    return Array.from(value);
+  }
+  return [value];
+}
+
+/**
+ * Validator that requires every file of the control's value to be at most `maxSize` bytes.
+ * Accepts a `File`, an array of files or a `FileList`.
+ */
+export function fileSizeValidator(maxSize: number): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    const actualSize = Math.max(
+      0,
+      ...toFiles(control.value).map((f) => f.size)
+    );
+    return actualSize > maxSize ? { filesize: { maxSize, actualSize } } : null;
+  };
+}
+
+/**
+ * Validator that requires every file of the control's value to match one of `types`, given as
+ * MIME types (`"application/pdf"`), wildcards (`"image/*"`) or extensions (`".pdf"`).
+ */
+export function fileTypeValidator(types: string[]): ValidatorFn {
+  const matches = (file: { type: string; name?: string }) =>
+    types.some((type) =>
+      type.charAt(0) === "."
+        ? (file.name || "").toLowerCase().endsWith(type.toLowerCase())
+        : type.endsWith("/*")
+        ? file.type.startsWith(type.slice(0, -1))
+        : file.type === type
+    );
+  return (control: AbstractControl): ValidationErrors | null => {
+    const file = toFiles(control.value).find((f) => !matches(f));
+    return file
+      ? { filetype: { allowedTypes: types, actualType: file.type } }
+      : null;
+  };
+}
+
+/**
+ * Validator that requires the control's value to differ from the other elements of a
+ * `FormArray`. The control is an element of the array, or a control inside one; in the latter
+ * case `key` is the path of the compared control within each element.
+ *
+ * The array can be given as a getter when the validator is created before it. The validator
+ * runs when the control changes; other elements are not validated again.
+ */
+export function uniqueInValidator(
+  array: FormArray | (() => FormArray | null),
+  key?: string
+): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    const formArray = typeof array === "function" ? array() : array;
+    if (!formArray || isEmptyInputValue(control.value)) return null;
+    let element: AbstractControl | null = control;
+    while (element && element.parent !== formArray) element = element.parent;
+    const duplicated = formArray.controls.some((other) => {
+      if (other === element) return false;
+      const compared = key ? other.get(key) : other;
+      return !!compared && compared.value === control.value;
+    });
+    return duplicated ? { unique: { actual: control.value } } : null;
+  };
+}
+
+/**
+ * Validator that requires the control's value to be an array with at least `minItems` items.
+ */
+export function minItemsValidator(minItems: number): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    if (!Array.isArray(control.value)) return null;
+    return control.value.length < minItems
+      ? {
+          minitems: {
+            requiredItems: minItems,
+            actualItems: control.value.length,
+          },
+        }
+      : null;
+  };
+}
+
+/**
+ * Validator that requires the control's value to be an array with at most `maxItems` items.
+ */
+export function maxItemsValidator(maxItems: number): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    if (!Array.isArray(control.value)) return null;
+    return control.value.length > maxItems
+      ? {
+          maxitems: {
+            requiredItems: maxItems,
+            actualItems: control.value.length,
+          },
+        }
+      : null;
+  };
+}
@@ -6,7 +6,8 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-import { Observable } from "rxjs";
+import { defer, Observable, of, throwError, timer, TimeoutError } from "rxjs";
+import { catchError, switchMap, timeout } from "rxjs/operators";
 import { FormArray } from "./form_array";
 import { FormGroup } from "./form_group";
 
@@ -34,9 +35,14 @@ import {
   toObservable,
 } from "../validators";
 import { AsyncProcessor } from "../addons/utils/LoadControl";
+import { LruCache } from "../core/utils/lru_cache";
 
 const NG_DEV_MODE = true; // typeof ngDevMode === 'undefined' || !!ngDevMode;
 
+/****** WDS:Modified ******/
+let nextControlId = 0;
+/**************************/
+
 /**
  * Reports that a control is valid, meaning that no errors exist in the input value.
  *
@@ -164,7 +170,54 @@ export interface AbstractControlOptions {
    * The event name for control to update upon.
    */
   updateOn?: "change" | "blur" | "submit";
+  /****** WDS:Modified ******/
+  /**
+   * @description
+   * How the async validators are run.
+   */
+  asyncValidation?: AsyncValidationOptions;
+  /**************************/
+}
+
+/****** WDS:Modified ******/
+/**
+ * Settings for running the async validators of a control. The control stays `PENDING` while it
+ * waits for the debounce time and for the validators.
+ *
+ * @usageNotes
+ *
+ * ```ts
+ * const username = new FormControl("", {
+ *   asyncValidators: usernameAvailable,
+ *   asyncValidation: { debounceTime: 300, cacheSize: 20, timeout: 5000 },
+ * });
+ * ```
+ *
+ * @publicApi
+ */
+export interface AsyncValidationOptions {
+  /**
+   * Milliseconds to wait without value changes before running the validators.
+   */
+  debounceTime?: number;
+  /**
+   * Reuses the last result when the value did not change since the last validation.
+   */
+  distinct?: boolean;
+  /**
+   * Number of results kept by value. Cached values are not validated again.
+   */
+  cacheSize?: number;
+  /**
+   * Milliseconds after which a running validation is abandoned with `timeoutError`.
+   */
+  timeout?: number;
+  /**
+   * Errors set when the validation times out. Defaults to `{ asyncTimeout: true }`.
+   */
+  timeoutError?: ValidationErrors;
 }
+/**************************/
 
 export function isOptionsObj(
   validatorOrOpts?: ValidatorFn | ValidatorFn[] | AbstractControlOptions | null
@@ -202,7 +255,10 @@ export function assertAllValuesPresent(
   isGroup: boolean,
   value: any
 ): void {
-  control._forEachChild((_: unknown, key: string | number) => {
+  control._forEachChild((child: AbstractControl, key: string | number) => {
+    /****** WDS:Modified ******/
+    if (child._excludeFromValue) return;
+    /**************************/
     if (value[key] === undefined) {
       throw new RuntimeError(
         RuntimeErrorCode.MISSING_CONTROL_VALUE,
@@ -428,6 +484,15 @@ export abstract class AbstractControl<
 
   private _parent: FormGroup | FormArray | null = null;
   private _asyncValidationSubscription: any;
+  /****** WDS:Modified ******/
+  private _asyncValidationOptions: AsyncValidationOptions | null = null;
+  private _asyncValidationCache: LruCache<any, ValidationErrors | null> | null =
+    null;
+  private _lastAsyncValidation: {
+    key: any;
+    errors: ValidationErrors | null;
+  } | null = null;
+  /**************************/
 
   /**
    * Contains the result of merging synchronous validators into a single validator function
@@ -866,7 +931,13 @@ export abstract class AbstractControl<
    * marks all direct ancestors. Default is false.
    */
   markAsTouched(opts: { onlySelf?: boolean } = {}): void {
+    /****** WDS:Modified ******/
+    const wasTouched = this.touched;
+    /**************************/
     (this as { touched: boolean }).touched = true;
+    /****** WDS:Modified ******/
+    if (!wasTouched) this.notifyChange();
+    /**************************/
 
     if (this._parent && !opts.onlySelf) {
       this._parent.markAsTouched(opts);
@@ -903,6 +974,9 @@ export abstract class AbstractControl<
   markAsUntouched(opts: { onlySelf?: boolean } = {}): void {
     (this as { touched: boolean }).touched = false;
     this._pendingTouched = false;
+    /****** WDS:Modified ******/
+    this.blurred = false;
+    /**************************/
 
     this._forEachChild((control: AbstractControl) => {
       control.markAsUntouched({ onlySelf: true });
@@ -1027,6 +1101,9 @@ export abstract class AbstractControl<
 
     this._updateAncestors({ ...opts, skipPristineCheck });
     this._onDisabledChange.forEach((changeFn) => changeFn(true));
+    /****** WDS:Modified ******/
+    this.notifyChange();
+    /**************************/
   }
 
   /**
@@ -1060,6 +1137,9 @@ export abstract class AbstractControl<
 
     this._updateAncestors({ ...opts, skipPristineCheck });
     this._onDisabledChange.forEach((changeFn) => changeFn(false));
+    /****** WDS:Modified ******/
+    this.notifyChange();
+    /**************************/
   }
 
   private _updateAncestors(opts: {
@@ -1083,7 +1163,35 @@ export abstract class AbstractControl<
    */
   setParent(parent: FormGroup | FormArray | null): void {
     this._parent = parent;
+    /****** WDS:Modified ******/
+    if (parent) this._resolvePendingDependencies();
+    /**************************/
+  }
+
+  /****** WDS:Modified ******/
+  /**
+   * Set by validators that depend on controls which could not be found yet, usually because the
+   * control is not attached to its parent.
+   *
+   * @internal
+   */
+  _hasUnresolvedDependencies = false;
+
+  /**
+   * Validates again the controls of this subtree whose dependencies could not be found.
+   *
+   * @internal
+   */
+  _resolvePendingDependencies(): void {
+    this._forEachChild((control: AbstractControl) =>
+      control._resolvePendingDependencies()
+    );
+    if (this._hasUnresolvedDependencies) {
+      this._hasUnresolvedDependencies = false;
+      this.updateValueAndValidity({ emitEvent: false });
+    }
   }
+  /**************************/
 
   /**
    * Sets the value of the control. Abstract method (implemented in sub-classes).
@@ -1144,6 +1252,10 @@ export abstract class AbstractControl<
       (this.statusChanges as EventEmitter<FormControlStatus>).emit(this.status);
     }
 
+    /****** WDS:Modified ******/
+    this._validatedListeners.forEach((listener) => listener(opts));
+    /**************************/
+
     if (this._parent && !opts.onlySelf) {
       this._parent.updateValueAndValidity(opts);
     }
@@ -1166,13 +1278,22 @@ export abstract class AbstractControl<
   }
 
   private _runValidator(): ValidationErrors | null {
-    return this.validator ? this.validator(this) : null;
+    /****** WDS:Modified ******/
+    const errors = this.validator ? this.validator(this) : null;
+    return this._parseError ? { ...errors, ...this._parseError } : errors;
+    /**************************/
   }
 
   private _runAsyncValidator(emitEvent?: boolean): void {
     if (this.asyncValidator) {
       (this as { status: FormControlStatus }).status = PENDING;
       this._hasOwnPendingAsyncValidator = true;
+      /****** WDS:Modified ******/
+      if (this._asyncValidationOptions) {
+        this._runConfiguredAsyncValidator(emitEvent);
+        return;
+      }
+      /**************************/
       const obs = toObservable(this.asyncValidator(this));
       this._asyncValidationSubscription = obs.subscribe(
         (errors: ValidationErrors | null) => {
@@ -1186,6 +1307,65 @@ export abstract class AbstractControl<
     }
   }
 
+  /****** WDS:Modified ******/
+  private _runConfiguredAsyncValidator(emitEvent?: boolean): void {
+    const options = this._asyncValidationOptions!;
+    const key = toAsyncValidationKey(this.value);
+    const last = this._lastAsyncValidation;
+    const cached =
+      options.distinct && last && last.key === key
+        ? { errors: last.errors }
+        : this._asyncValidationCache && this._asyncValidationCache.has(key)
+        ? { errors: this._asyncValidationCache.get(key)! }
+        : null;
+    if (cached) {
+      this._hasOwnPendingAsyncValidator = false;
+      this._lastAsyncValidation = { key, errors: cached.errors };
+      this.setErrors(cached.errors, { emitEvent });
+      return;
+    }
+
+    let timedOut = false;
+    let obs: Observable<ValidationErrors | null> = defer(() =>
+      toObservable(this.asyncValidator!(this))
+    );
+    if (options.timeout != null) {
+      obs = obs.pipe(
+        timeout(options.timeout),
+        catchError((error) => {
+          if (!(error instanceof TimeoutError)) return throwError(error);
+          timedOut = true;
+          return of(options.timeoutError || { asyncTimeout: true });
+        })
+      );
+    }
+    if (options.debounceTime) {
+      const validation = obs;
+      obs = timer(options.debounceTime).pipe(switchMap(() => validation));
+    }
+    this._asyncValidationSubscription = obs.subscribe((errors) => {
+      this._hasOwnPendingAsyncValidator = false;
+      if (!timedOut) {
+        this._lastAsyncValidation = { key, errors };
+        this._asyncValidationCache &&
+          this._asyncValidationCache.set(key, errors);
+      }
+      this.setErrors(errors, { emitEvent });
+    });
+  }
+
+  /** @internal */
+  _setAsyncValidationOptions(
+    opts?: ValidatorFn | ValidatorFn[] | AbstractControlOptions | null
+  ): void {
+    if (!isOptionsObj(opts) || !opts.asyncValidation) return;
+    this._asyncValidationOptions = opts.asyncValidation;
+    this._asyncValidationCache = opts.asyncValidation.cacheSize
+      ? new LruCache(opts.asyncValidation.cacheSize)
+      : null;
+  }
+  /**************************/
+
   private _cancelExistingSubscription(): void {
     if (this._asyncValidationSubscription) {
       this._asyncValidationSubscription.unsubscribe();
@@ -1227,6 +1407,9 @@ export abstract class AbstractControl<
   ): void {
     (this as { errors: ValidationErrors | null }).errors = errors;
     this._updateControlsErrors(opts.emitEvent !== false);
+    /****** WDS:Modified ******/
+    this.notifyChange();
+    /**************************/
   }
 
   /**
@@ -1358,13 +1541,133 @@ export abstract class AbstractControl<
   }
 
   /****** WDS:Modified ******/
+  /**
+   * Re-renders the whole form on every change. Only set when a root re-render is wanted, see
+   * the `renderOnChange` option of `useFormConfig`.
+   */
   forceUpdate!: () => void;
 
-  load = new AsyncProcessor(() => this.root.forceUpdate());
+  load = new AsyncProcessor(() => this.notifyChange());
+
+  /**
+   * Incremented by every `notifyChange()`.
+   */
+  changeVersion = 0;
+
+  private _changeListeners: Array<() => void> = [];
+
+  /**
+   * Registers a listener called by `notifyChange()`, which is how `WControlProvider` and
+   * `useControlChanges` re-render only the components of a changed control.
+   *
+   * @returns a function removing the listener.
+   */
+  subscribeChanges(listener: () => void): () => void {
+    this._changeListeners = [...this._changeListeners, listener];
+    return () => {
+      this._changeListeners = this._changeListeners.filter(
+        (l) => l !== listener
+      );
+    };
+  }
+
+  private _validatedListeners: Array<(opts: { emitEvent?: boolean }) => void> =
+    [];
+
+  /**
+   * Registers a listener called by `updateValueAndValidity()` once the control is validated and
+   * its events are emitted, before its ancestors are updated. Validators use it to set errors on
+   * other controls without re-entering the validation.
+   *
+   * @returns a function removing the listener.
+   * @internal
+   */
+  _onValidated(listener: (opts: { emitEvent?: boolean }) => void): () => void {
+    this._validatedListeners = [...this._validatedListeners, listener];
+    return () => {
+      this._validatedListeners = this._validatedListeners.filter(
+        (l) => l !== listener
+      );
+    };
+  }
+
+  /**
+   * Notifies the listeners of this control that its rendering is stale, and re-renders the
+   * root when it has a `forceUpdate`.
+   */
+  notifyChange() {
+    this.changeVersion++;
+    this._changeListeners.forEach((listener) => listener());
+    const forceUpdate = this.root.forceUpdate;
+    forceUpdate && forceUpdate();
+  }
 
   onChange: (event: any) => void = () => {};
   onBlur: () => void = () => {};
 
+  /**
+   * Auto-generated id, unique among the controls of the page. Stable for the life of the
+   * control, so it can be used as a React key.
+   */
+  readonly id = `control-${nextControlId++}`;
+
+  /**
+   * Whether the user has left the control at least once. Cleared by `markAsUntouched()`.
+   */
+  blurred = false;
+
+  /**
+   * Element focused by `focusFirstInvalid`. Set through the `focusRef` of `WControlProvider` or
+   * the `useFocusRef` hook.
+   */
+  focusElement: any = null;
+
+  /**
+   * Error of the last view value that failed to parse, merged into `errors`.
+   * @internal
+   */
+  _parseError: ValidationErrors | null = null;
+
+  /**
+   * Whether the control is left out of the `value` of its parent.
+   * @internal
+   */
+  _excludeFromValue = false;
+
+  /**
+   * Sets the value of a computed control from its sources, see `_computeChildren`.
+   * @internal
+   */
+  _computeValue(options?: { onlySelf?: boolean; emitEvent?: boolean }): void {}
+
+  /**
+   * Sets the value of the computed children. Computed controls are read-only, so once the values
+   * of the children are written, they get theirs from the written sources.
+   * @internal
+   */
+  _computeChildren(options: { emitEvent?: boolean } = {}): void {
+    this._forEachChild((control: AbstractControl) =>
+      control._computeValue({ onlySelf: true, emitEvent: options.emitEvent })
+    );
+  }
+
+  /**
+   * Whether the control is hidden. `WControlProvider` does not render hidden controls.
+   */
+  hidden = false;
+
+  /**
+   * Hides or shows the control. Unlike `disable()`, the value of a hidden control is kept in
+   * the value of its parent.
+   */
+  setHidden(hidden: boolean) {
+    if (this.hidden === hidden) return;
+    this.hidden = hidden;
+    this.notifyChange();
+    // Elements of a `FormArray` are skipped by the provider of the array.
+    this.parent && this.parent.notifyChange();
+  }
+
   /**************************/
 
   /**
@@ -1478,6 +1781,9 @@ export abstract class AbstractControl<
     if (isOptionsObj(opts) && opts.updateOn != null) {
       this._updateOn = opts.updateOn!;
     }
+    /****** WDS:Modified ******/
+    this._setAsyncValidationOptions(opts);
+    /**************************/
   }
   /**
    * Check to see if parent has been marked artificially dirty.
@@ -1522,5 +1828,18 @@ export abstract class AbstractControl<
     this._composedAsyncValidatorFn = coerceToAsyncValidator(
       this._rawAsyncValidators
     );
+    /****** WDS:Modified ******/
+    // Results of the previous validators do not apply to the new ones.
+    this._lastAsyncValidation = null;
+    this._asyncValidationCache && this._asyncValidationCache.clear();
+    /**************************/
   }
 }
+
+/****** WDS:Modified ******/
+function toAsyncValidationKey(value: any): any {
+  return value !== null && typeof value === "object"
+    ? JSON.stringify(value)
+    : value;
+}
+/**************************/
@@ -145,6 +145,9 @@ export class FormArray<
     this._initObservables();
     this._setUpdateStrategy(validatorOrOpts);
     this._setUpControls();
+    /****** WDS:Modified ******/
+    this._pristineControls = [...this.controls];
+    /**************************/
     this.updateValueAndValidity({
       onlySelf: true,
       // If `asyncValidator` is present, it will trigger control status change from `PENDING` to
@@ -188,8 +191,7 @@ export class FormArray<
     this.updateValueAndValidity({ emitEvent: options.emitEvent });
     this._onCollectionChange();
     /****** WDS:Modified ******/
-    const forceUpdate = this.root.forceUpdate;
-    forceUpdate && forceUpdate();
+    this.notifyChange();
     /**************************/
   }
 
@@ -216,8 +218,7 @@ export class FormArray<
     this._registerControl(control);
     this.updateValueAndValidity({ emitEvent: options.emitEvent });
     /****** WDS:Modified ******/
-    const forceUpdate = this.root.forceUpdate;
-    forceUpdate && forceUpdate();
+    this.notifyChange();
     /**************************/
   }
 
@@ -243,8 +244,7 @@ export class FormArray<
     this.controls.splice(adjustedIndex, 1);
     this.updateValueAndValidity({ emitEvent: options.emitEvent });
     /****** WDS:Modified ******/
-    const forceUpdate = this.root.forceUpdate;
-    forceUpdate && forceUpdate();
+    this.notifyChange();
     /**************************/
   }
 
@@ -282,11 +282,78 @@ export class FormArray<
     this.updateValueAndValidity({ emitEvent: options.emitEvent });
     this._onCollectionChange();
     /****** WDS:Modified ******/
-    const forceUpdate = this.root.forceUpdate;
-    forceUpdate && forceUpdate();
+    this.notifyChange();
     /**************************/
   }
 
+  /****** WDS:Modified ******/
+  /**
+   * Move the control at index `from` to index `to`, shifting the controls in between.
+   *
+   * @param from Index of the control to move. If negative, wraps around from the back.
+   * @param to Index the control ends at. If negative, wraps around from the back.
+   * @param options Specifies whether this FormArray instance should emit events after the
+   *     control is moved.
+   * * `emitEvent`: When true or not supplied (the default), both the `statusChanges` and
+   * `valueChanges` observables emit events with the latest status and value when the control is
+   * moved. When false, no events are emitted.
+   */
+  move(from: number, to: number, options: { emitEvent?: boolean } = {}): void {
+    const fromIndex = this._adjustIndex(from);
+    const toIndex = this._adjustIndex(to);
+    if (
+      fromIndex === toIndex ||
+      !this.controls[fromIndex] ||
+      !this.controls[toIndex]
+    ) {
+      return;
+    }
+    const [control] = this.controls.splice(fromIndex, 1);
+    this.controls.splice(toIndex, 0, control);
+    this._afterReorder(options);
+  }
+
+  /**
+   * Swap the controls at indexes `a` and `b`.
+   *
+   * @param a Index of the first control. If negative, wraps around from the back.
+   * @param b Index of the second control. If negative, wraps around from the back.
+   * @param options Specifies whether this FormArray instance should emit events after the
+   *     controls are swapped.
+   * * `emitEvent`: When true or not supplied (the default), both the `statusChanges` and
+   * `valueChanges` observables emit events with the latest status and value when the controls
+   * are swapped. When false, no events are emitted.
+   */
+  swap(a: number, b: number, options: { emitEvent?: boolean } = {}): void {
+    const aIndex = this._adjustIndex(a);
+    const bIndex = this._adjustIndex(b);
+    const aControl = this.controls[aIndex];
+    const bControl = this.controls[bIndex];
+    if (aIndex === bIndex || !aControl || !bControl) return;
+    this.controls[aIndex] = bControl;
+    this.controls[bIndex] = aControl;
+    this._afterReorder(options);
+  }
+
+  private _afterReorder(options: { emitEvent?: boolean }) {
+    this.updateValueAndValidity({ emitEvent: options.emitEvent });
+    this._onCollectionChange();
+    this.notifyChange();
+  }
+
+  /**
+   * Elements of the array when it was created, reset or last marked as pristine. Adding, removing
+   * or reordering elements does not change any `dirty` flag, so `getFormChanges` compares them.
+   * @internal
+   */
+  _pristineControls: AbstractControl[] = [];
+
+  override markAsPristine(opts: { onlySelf?: boolean } = {}): void {
+    super.markAsPristine(opts);
+    this._pristineControls = [...this.controls];
+  }
+  /**************************/
+
   /**
    * Length of the control array.
    */
@@ -344,6 +411,9 @@ export class FormArray<
         emitEvent: options.emitEvent,
       });
     });
+    /****** WDS:Modified ******/
+    this._computeChildren({ emitEvent: options.emitEvent });
+    /**************************/
     this.updateValueAndValidity(options);
   }
 
@@ -400,6 +470,9 @@ export class FormArray<
         });
       }
     });
+    /****** WDS:Modified ******/
+    this._computeChildren({ emitEvent: options.emitEvent });
+    /**************************/
     this.updateValueAndValidity(options);
   }
 
@@ -462,6 +535,9 @@ export class FormArray<
         emitEvent: options.emitEvent,
       });
     });
+    /****** WDS:Modified ******/
+    this._pristineControls = [...this.controls];
+    /**************************/
     this._updatePristine(options);
     this._updateTouched(options);
     this.updateValueAndValidity(options);
@@ -521,6 +597,9 @@ export class FormArray<
     );
     this.controls.splice(0);
     this.updateValueAndValidity({ emitEvent: options.emitEvent });
+    /****** WDS:Modified ******/
+    this.notifyChange();
+    /**************************/
   }
 
   /**
@@ -556,7 +635,10 @@ export class FormArray<
   /** @internal */
   override _updateValue(): void {
     (this as { value: any }).value = this.controls
-      .filter((control) => control.enabled || this.disabled)
+      .filter(
+        (control) =>
+          (control.enabled || this.disabled) && !control._excludeFromValue
+      )
       .map((control) => control.value);
   }
 
@@ -6,8 +6,15 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-import { AsyncValidatorFn, ValidatorFn } from "../directives/validators";
+import { Subscription } from "rxjs";
+import {
+  AsyncValidatorFn,
+  ValidationErrors,
+  ValidatorFn,
+} from "../directives/validators";
 import { removeListItem } from "../util";
+import { IOptionsSourceConfig } from "../addons/optionsSource/model";
+import { OptionsSource } from "../addons/optionsSource/OptionsSource";
 
 import {
   AbstractControl,
@@ -49,7 +56,65 @@ export interface FormControlOptions extends AbstractControlOptions {
    * @deprecated Use `nonNullable` instead.
    */
   initialValueIsDefault?: boolean;
+
+  /****** WDS:Modified ******/
+  /**
+   * Makes the value of the control derived from other controls of its parent.
+   */
+  computed?: ComputedControlOptions;
+
+  /**
+   * Loads the options of the control through its `load` processor, see `OptionsSource`.
+   */
+  optionsSource?: IOptionsSourceConfig;
+
+  /**
+   * Converts the view value given to `onChange` into the value of the control. Throwing marks
+   * the input as unparsable: the value becomes `null` and a `parse` error is set.
+   */
+  parse?: (viewValue: any) => any;
+
+  /**
+   * Converts the value of the control into the text rendered by the input, see `viewValue`.
+   */
+  format?: (modelValue: any) => any;
+  /**************************/
+}
+
+/****** WDS:Modified ******/
+/**
+ * Declares how a computed `FormControl` derives its value. The control is read-only: `onChange`
+ * is ignored, and `setValue`, `patchValue` and `reset` compute the value from the sources.
+ *
+ * @usageNotes
+ *
+ * ```ts
+ * const row = new FormGroup({
+ *   qty: new FormControl(1),
+ *   price: new FormControl(10),
+ *   lineTotal: new FormControl(0, {
+ *     computed: { deps: ["qty", "price"], compute: ([qty, price]) => qty * price },
+ *   }),
+ * });
+ * ```
+ *
+ * @publicApi
+ */
+export interface ComputedControlOptions<TValue = any> {
+  /**
+   * Paths of the source controls, relative to the parent of the computed control.
+   */
+  deps: Array<string | Array<string | number>>;
+  /**
+   * Receives the raw values of `deps`, in the same order.
+   */
+  compute: (values: any[], parent: AbstractControl) => TValue;
+  /**
+   * Leaves the control out of the `value` of its parent. It is still part of `getRawValue()`.
+   */
+  excludeFromValue?: boolean;
 }
+/**************************/
 
 /**
  * Tracks the value and validation status of an individual form control.
@@ -361,6 +426,29 @@ export interface FormControl<TValue = any> extends AbstractControl<TValue> {
   onChange: (event: any) => void;
 
   onBlur: () => void;
+
+  /** @internal */
+  _computed: ComputedControlOptions<TValue> | null;
+
+  /** @internal */
+  _computeValue(options?: { onlySelf?: boolean; emitEvent?: boolean }): void;
+
+  /** @internal */
+  _parse: ((viewValue: any) => any) | null;
+
+  /** @internal */
+  _format: ((modelValue: any) => any) | null;
+
+  /**
+   * Options source created from the `optionsSource` option, if any.
+   */
+  optionsSource: OptionsSource | null;
+
+  /**
+   * Value to render in the input: the text typed by the user while it is being edited or fails
+   * to parse, otherwise the value formatted by the `format` option.
+   */
+  readonly viewValue: any;
   /**************************/
 }
 
@@ -490,6 +578,22 @@ export const FormControl: ɵFormControlCtor = class FormControl<TValue = any>
         this.defaultValue = formState;
       }
     }
+    /****** WDS:Modified ******/
+    if (isOptionsObj(validatorOrOpts) && validatorOrOpts.computed) {
+      this._computed = validatorOrOpts.computed;
+      this._excludeFromValue = !!validatorOrOpts.computed.excludeFromValue;
+    }
+    if (isOptionsObj(validatorOrOpts)) {
+      this._parse = validatorOrOpts.parse || null;
+      this._format = validatorOrOpts.format || null;
+    }
+    if (isOptionsObj(validatorOrOpts) && validatorOrOpts.optionsSource) {
+      this.optionsSource = new OptionsSource(
+        this,
+        validatorOrOpts.optionsSource
+      );
+    }
+    /**************************/
   }
 
   override setValue(
@@ -501,10 +605,18 @@ export const FormControl: ɵFormControlCtor = class FormControl<TValue = any>
       emitViewToModelChange?: boolean;
     } = {}
   ): void {
+    /****** WDS:Modified ******/
+    // Computed controls are read-only: any other write gets the value computed from the sources.
+    if (this._computed && !this._computing && this.parent) {
+      value = this._compute();
+    }
+    /**************************/
     (this as { value: TValue }).value = this._pendingValue = value;
     /****** WDS:Modified ******/
-    const forceUpdate = this.root.forceUpdate;
-    forceUpdate && forceUpdate();
+    if (!this._applyingViewValue) {
+      this._parseError = this._pendingParseError = null;
+      this._hasViewValue = false;
+    }
     /**************************/
     if (this._onChange.length && options.emitModelToViewChange !== false) {
       this._onChange.forEach((changeFn) =>
@@ -512,6 +624,9 @@ export const FormControl: ɵFormControlCtor = class FormControl<TValue = any>
       );
     }
     this.updateValueAndValidity(options);
+    /****** WDS:Modified ******/
+    this.notifyChange();
+    /**************************/
   }
 
   override patchValue(
@@ -579,10 +694,13 @@ export const FormControl: ɵFormControlCtor = class FormControl<TValue = any>
       if (this._pendingDirty) this.markAsDirty();
       if (this._pendingTouched) this.markAsTouched();
       if (this._pendingChange) {
-        this.setValue(this._pendingValue, {
+        /****** WDS:Modified ******/
+        this._parseError = this._pendingParseError;
+        this._applyViewValue(this._pendingValue, {
           onlySelf: true,
           emitModelToViewChange: false,
         });
+        /**************************/
         return true;
       }
     }
@@ -599,10 +717,124 @@ export const FormControl: ɵFormControlCtor = class FormControl<TValue = any>
       (this as { value: TValue }).value = this._pendingValue = formState;
     }
   }
+  /****** WDS:Modified ******/
+  /** @internal */
+  _computed: ComputedControlOptions<TValue> | null = null;
+
+  private _computedSubscriptions: Subscription[] = [];
+
+  private _computing = false;
+
+  optionsSource: OptionsSource | null = null;
+
+  /** @internal */
+  _parse: ((viewValue: any) => any) | null = null;
+
+  /** @internal */
+  _format: ((modelValue: any) => any) | null = null;
+
+  private _viewValue: any;
+
+  private _hasViewValue = false;
+
+  private _pendingParseError: ValidationErrors | null = null;
+
+  private _applyingViewValue = false;
+
+  get viewValue(): any {
+    if (this._hasViewValue) return this._viewValue;
+    return this._format ? this._format(this.value) : this.value;
+  }
+
+  private _parseViewValue(viewValue: any): any {
+    if (!this._parse && !this._format) return viewValue;
+    this._viewValue = viewValue;
+    this._hasViewValue = true;
+    this._pendingParseError = null;
+    if (!this._parse) return viewValue;
+    try {
+      return this._parse(viewValue);
+    } catch (error) {
+      this._pendingParseError = {
+        parse: {
+          viewValue,
+          message: error instanceof Error ? error.message : error,
+        },
+      };
+      return null;
+    }
+  }
+
+  /**
+   * Sets a value coming from the view, keeping `viewValue` and the parse error.
+   */
+  private _applyViewValue(
+    value: TValue,
+    options: { onlySelf?: boolean; emitModelToViewChange?: boolean } = {}
+  ) {
+    this._applyingViewValue = true;
+    try {
+      this.setValue(value, options);
+    } finally {
+      this._applyingViewValue = false;
+    }
+  }
+
+  override setParent(parent: any): void {
+    super.setParent(parent);
+    if (this._computed) this._bindComputed();
+    if (this.optionsSource) {
+      parent ? this.optionsSource.bind() : this.optionsSource.destroy();
+    }
+  }
+
+  private _bindComputed() {
+    this._computedSubscriptions.forEach((subscription) =>
+      subscription.unsubscribe()
+    );
+    this._computedSubscriptions = [];
+    const parent = this.parent;
+    if (!parent) return;
+    this._computedSubscriptions = this._computed!.deps.map((path) =>
+      parent.get(path as any)
+    )
+      .filter((source): source is AbstractControl => !!source)
+      .map((source) =>
+        source.valueChanges.subscribe(() => this._computeValue())
+      );
+    this._computeValue({ onlySelf: true, emitEvent: false });
+  }
+
+  /** @internal */
+  override _computeValue(
+    options: { onlySelf?: boolean; emitEvent?: boolean } = {}
+  ) {
+    if (!this._computed || !this.parent || this._computing) return;
+    const value = this._compute();
+    if (value === this.value) return;
+    this._computing = true;
+    try {
+      this.setValue(value, options);
+    } finally {
+      this._computing = false;
+    }
+  }
+
+  private _compute(): TValue {
+    const parent = this.parent!;
+    const values = this._computed!.deps.map((path) => {
+      const source = parent.get(path as any);
+      return source ? source.getRawValue() : undefined;
+    });
+    return this._computed!.compute(values, parent);
+  }
+  /**************************/
+
   /****** WDS:Modified ******/
   /***** Based on https://www.npmjs.com/package/react-reactive-form ******/
   onChange = (event: any) => {
-    const value = getControlValue(event);
+    if (this._computed) return;
+    const value = this._parseViewValue(getControlValue(event));
     const isDirty = value !== this.value;
     if (this.updateOn !== "change") {
       this._pendingValue = value;
@@ -614,11 +846,19 @@ export const FormControl: ɵFormControlCtor = class FormControl<TValue = any>
       if (isDirty && !this.dirty) {
         this.markAsDirty();
       }
-      this.setValue(value);
+      this._parseError = this._pendingParseError;
+      this._applyViewValue(value);
     }
   };
 
   onBlur = () => {
+    const firstBlur = !this.blurred;
+    this.blurred = true;
+    // Once the user leaves a parsed input, it renders the formatted value again.
+    if (this._hasViewValue && !this._parseError && !this._pendingChange) {
+      this._hasViewValue = false;
+      this.notifyChange();
+    }
     if (this.updateOn === "blur") {
       if (this._pendingDirty && !this.dirty) {
         this.markAsDirty();
@@ -626,14 +866,14 @@ export const FormControl: ɵFormControlCtor = class FormControl<TValue = any>
       if (!this.touched) {
         this.markAsTouched();
       }
-      this.root.forceUpdate();
+      this.notifyChange();
     } else if (this.updateOn === "submit") {
       this._pendingTouched = true;
+      if (firstBlur) this.notifyChange();
     } else {
       const emitChangeToView = !this.touched;
       if (!this.touched) {
         this.markAsTouched();
-        this.root.forceUpdate();
       }
       if (emitChangeToView) {
       }
@@ -643,7 +883,11 @@ export const FormControl: ɵFormControlCtor = class FormControl<TValue = any>
 };
 
 /****** WDS:Modified ******/
-function getControlValue(event: any) {
+/**
+ * Value carried by a change event of a native or React Native input, or `event` itself when it
+ * is not an event.
+ */
+export function getControlValue(event: any) {
   if (isEvent(event)) {
     switch (event.target.type) {
       case "checkbox":
@@ -6,7 +6,16 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-import { AsyncValidatorFn, ValidatorFn } from "../directives/validators";
+import {
+  AsyncValidatorFn,
+  ValidationErrors,
+  ValidatorFn,
+} from "../directives/validators";
+/****** WDS:Modified ******/
+import { RuntimeError } from "../core/errors";
+import { missingControlError } from "../directives/reactive_errors";
+import { RuntimeErrorCode } from "../errors";
+/**************************/
 
 import {
   AbstractControl,
@@ -61,6 +70,29 @@ export type ɵOptionalKeys<T> = {
   [K in keyof T]-?: undefined extends T[K] ? K : never;
 }[keyof T];
 
+/****** WDS:Modified ******/
+/**
+ * Declares a validator over several controls of a `FormGroup`.
+ *
+ * @see FormGroup#addCrossFieldValidator
+ */
+export interface CrossFieldValidator {
+  /**
+   * Paths of the participating controls, relative to the group, e.g. `"range.start"`.
+   */
+  paths: Array<string | Array<string | number>>;
+  /**
+   * Receives the values of `paths`, in the same order, and returns the errors to set on `target`
+   * or `null` when they are valid.
+   */
+  validator: (values: any[], group: FormGroup) => ValidationErrors | null;
+  /**
+   * Path of the control that receives the errors. Defaults to the group itself.
+   */
+  target?: string | Array<string | number>;
+}
+/**************************/
+
 /**
  * Tracks the value and validity state of a group of `FormControl` instances.
  *
@@ -399,6 +431,73 @@ export class FormGroup<
     );
   }
 
+  /****** WDS:Modified ******/
+  /**
+   * Adds a validator that reads several controls of the group and sets its errors on `target`.
+   *
+   * The validator runs again whenever one of the `paths` controls changes its value. Controls
+   * replaced afterwards with `setControl` are not tracked.
+   *
+   * @usageNotes
+   *
+   * ```ts
+   * form.addCrossFieldValidator({
+   *   paths: ["password", "confirmPassword"],
+   *   target: "confirmPassword",
+   *   validator: ([password, confirm]) =>
+   *     password === confirm ? null : { mismatch: true },
+   * });
+   * ```
+   *
+   * @returns A function that removes the validator.
+   */
+  addCrossFieldValidator(config: CrossFieldValidator): () => void {
+    const getControl = (path: string | Array<string | number>) => {
+      const control = this.get(path as any);
+      if (!control) {
+        throw new RuntimeError(
+          RuntimeErrorCode.MISSING_CONTROL,
+          missingControlError(true, Array.isArray(path) ? path.join(".") : path)
+        );
+      }
+      return control;
+    };
+    const target: AbstractControl =
+      config.target != null ? getControl(config.target) : this;
+    const sources = config.paths.map(getControl);
+
+    const validator: ValidatorFn = () =>
+      config.validator(
+        sources.map((source) => source.value),
+        this
+      );
+    target.addValidators(validator);
+    target.updateValueAndValidity();
+
+    // Changes inside the target already run its validators.
+    let validating = false;
+    const subscriptions = sources
+      .filter((source) => !isSameOrDescendant(source, target))
+      .map((source) =>
+        source.valueChanges.subscribe(() => {
+          if (validating) return;
+          validating = true;
+          try {
+            target.updateValueAndValidity();
+          } finally {
+            validating = false;
+          }
+        })
+      );
+
+    return () => {
+      subscriptions.forEach((subscription) => subscription.unsubscribe());
+      target.removeValidators(validator);
+      target.updateValueAndValidity();
+    };
+  }
+  /**************************/
+
   /**
    * Sets the value of the `FormGroup`. It accepts an object that matches
    * the structure of the group, with control names as keys.
@@ -449,10 +548,12 @@ export class FormGroup<
         emitEvent: options.emitEvent,
       });
     });
+    /****** WDS:Modified ******/
+    this._computeChildren({ emitEvent: options.emitEvent });
+    /**************************/
     this.updateValueAndValidity(options);
     /****** WDS:Modified ******/
-    const forceUpdate = this.root.forceUpdate;
-    forceUpdate && forceUpdate();
+    this.notifyChange();
     /**************************/
   }
 
@@ -512,6 +613,9 @@ export class FormGroup<
         );
       }
     });
+    /****** WDS:Modified ******/
+    this._computeChildren({ emitEvent: options.emitEvent });
+    /**************************/
     this.updateValueAndValidity(options);
   }
 
@@ -657,7 +761,7 @@ export class FormGroup<
   _reduceValue(): Partial<TControl> {
     let acc: Partial<TControl> = {};
     return this._reduceChildren(acc, (acc, control, name) => {
-      if (control.enabled || this.disabled) {
+      if ((control.enabled || this.disabled) && !control._excludeFromValue) {
         acc[name] = control.value;
       }
       return acc;
@@ -696,6 +800,20 @@ export class FormGroup<
   }
 }
 
+/****** WDS:Modified ******/
+function isSameOrDescendant(
+  control: AbstractControl,
+  ancestor: AbstractControl
+): boolean {
+  let current: AbstractControl | null = control;
+  while (current) {
+    if (current === ancestor) return true;
+    current = current.parent;
+  }
+  return false;
+}
+/**************************/
+
 interface UntypedFormGroupCtor {
   new (
     controls: { [key: string]: AbstractControl },
@@ -0,0 +1,98 @@
+/**
+ * Parsers for the `parse` option of `FormControl`. Like `extra_validators`, they are plain
+ * functions, so the unused ones are left out of the bundle. Empty input becomes `null`; input
+ * that can't be parsed throws, which sets a `parse` error on the control.
+ */
+
+export interface NumberParserOptions {
+  /**
+   * Defaults to `"."`.
+   */
+  decimalSeparator?: string;
+  /**
+   * Removed before parsing. Defaults to `","`, or `"."` when `decimalSeparator` is `","`.
+   */
+  thousandsSeparator?: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Parser turning text like `"$ 1,234.50"` into a number. Spaces, and symbols before or after the
+ * number, like currencies or `%`, are ignored.
+ */
+export function numberParser(
+  options: NumberParserOptions = {}
+): (viewValue: any) => number | null {
+  const {
+    decimalSeparator = ".",
+    thousandsSeparator = decimalSeparator === "," ? "." : ",",
+  } = options;
+  if (thousandsSeparator === decimalSeparator) {
+    throw new Error(
+      `The decimal and thousands separators are both "${decimalSeparator}".`
+    );
+  }
+  const thousands = new RegExp(escapeRegExp(thousandsSeparator), "g");
+  return (viewValue: any) => {
+    if (typeof viewValue === "number") return viewValue;
+    const text = viewValue == null ? "" : `${viewValue}`.trim();
+    if (text === "") return null;
+    const normalized = text
+      .replace(thousands, "")
+      .replace(decimalSeparator, ".")
+      .replace(/\s/g, "")
+      .replace(/^[^\d+\-.]+|[^\d.]+$/g, "");
+    const value = Number(normalized);
+    if (normalized === "" || isNaN(value)) {
+      throw new Error(`"${viewValue}" is not a number.`);
+    }
+    return value;
+  };
+}
+
+const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+
+function toLocalDateString(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+/**
+ * Parser turning a `Date`, a timestamp or a date string into an ISO 8601 string. With
+ * `dateOnly`, only the date part (`YYYY-MM-DD`) in the local time zone is kept.
+ */
+export function dateParser(
+  options: { dateOnly?: boolean } = {}
+): (viewValue: any) => string | null {
+  return (viewValue: any) => {
+    if (viewValue == null || viewValue === "") return null;
+    // `Date` reads `YYYY-MM-DD` text, like the value of a date input, as UTC.
+    const dateOnly =
+      typeof viewValue === "string" &&
+      /^(\d{4})-(\d{2})-(\d{2})$/.exec(viewValue.trim());
+    const date =
+      viewValue instanceof Date
+        ? viewValue
+        : dateOnly
+        ? new Date(+dateOnly[1], +dateOnly[2] - 1, +dateOnly[3])
+        : new Date(viewValue);
+    if (
+      isNaN(date.getTime()) ||
+      (dateOnly && date.getDate() !== +dateOnly[3])
+    ) {
+      throw new Error(`"${viewValue}" is not a date.`);
+    }
+    return options.dateOnly ? toLocalDateString(date) : date.toISOString();
+  };
+}
+
+/**
+ * Parser removing the leading and trailing whitespace of text. Other values are kept.
+ */
+export function trimParser(viewValue: any): any {
+  return typeof viewValue === "string" ? viewValue.trim() : viewValue;
+}
@@ -8,7 +8,7 @@
 
 import { ModuleUtils } from "./core/utils/lang";
 
-import { forkJoin, from, Observable } from "rxjs";
+import { forkJoin, from, Observable, Subscription } from "rxjs";
 import { map } from "rxjs/operators";
 
 import {
@@ -389,6 +389,81 @@ export class Validators {
   ): AsyncValidatorFn | null {
     return composeAsync(validators);
   }
+
+  /****** WDS:Modified ******/
+  /**
+   * @description
+   * Validator that applies `validators` only while `predicate` returns true.
+   *
+   * `predicate` receives the values of the `deps` controls. Their paths are resolved from the
+   * parent of the control and then from the root, once the control is attached to its parent,
+   * and the control is validated again whenever one of them changes.
+   *
+   * @usageNotes
+   *
+   * ```typescript
+   * const form = new FormGroup({
+   *   country: new FormControl('US'),
+   *   state: new FormControl('', Validators.when(
+   *     ([country]) => country === 'US', Validators.required, ['country'])),
+   * });
+   *
+   * console.log(form.get('state').errors); // {required: true}
+   *
+   * form.get('country').setValue('PE');
+   * console.log(form.get('state').errors); // null
+   * ```
+   *
+   * @returns A validator function that returns the errors of `validators` while the predicate
+   * holds, otherwise `null`.
+   *
+   */
+  static when(
+    predicate: (values: any[], control: AbstractControl) => boolean,
+    validators: ValidatorFn | ValidatorFn[],
+    deps: Array<string | Array<string | number>> = []
+  ): ValidatorFn {
+    return conditionalValidator(predicate, validators, deps);
+  }
+
+  /**
+   * @description
+   * Validator that requires the control to have a non-empty value while the control at `path`
+   * has the `expected` value, or while `expected` returns true for its value.
+   *
+   * @usageNotes
+   *
+   * ```typescript
+   * const state = new FormControl('', Validators.requiredIf('country', 'US'));
+   * ```
+   *
+   * @returns An error map with the `required` property if the validation check fails,
+   * otherwise `null`.
+   *
+   */
+  static requiredIf(
+    path: string | Array<string | number>,
+    expected: any | ((value: any) => boolean)
+  ): ValidatorFn {
+    return requiredIfValidator(path, expected);
+  }
+
+  /**
+   * @description
+   * Validator that requires the control to have a non-empty value unless the control at `path`
+   * has the `expected` value, or unless `expected` returns true for its value.
+   *
+   * @returns An error map with the `required` property if the validation check fails,
+   * otherwise `null`.
+   *
+   */
+  static requiredUnless(
+    path: string | Array<string | number>,
+    expected: any | ((value: any) => boolean)
+  ): ValidatorFn {
+    return requiredUnlessValidator(path, expected);
+  }
+  /**************************/
 }
 
 /**
@@ -534,6 +609,149 @@ export function patternValidator(pattern: string | RegExp): ValidatorFn {
   };
 }
 
+/****** WDS:Modified ******/
+/**
+ * Validator that applies `validators` only while `predicate` holds.
+ * See `Validators.when` for additional information.
+ */
+export function conditionalValidator(
+  predicate: (values: any[], control: AbstractControl) => boolean,
+  validators: ValidatorFn | ValidatorFn[],
+  deps: Array<string | Array<string | number>> = []
+): ValidatorFn {
+  const validator = Array.isArray(validators)
+    ? compose(validators) || nullValidator
+    : validators;
+
+  // Subscriptions of each control to the controls read by the predicate.
+  const watched = new WeakMap<
+    AbstractControl,
+    Map<AbstractControl, Subscription>
+  >();
+  const revalidating = new WeakSet<AbstractControl>();
+
+  const watch = (
+    control: AbstractControl,
+    path: string | Array<string | number>,
+    source: AbstractControl
+  ) => {
+    let subscriptions = watched.get(control);
+    if (!subscriptions) {
+      subscriptions = new Map();
+      watched.set(control, subscriptions);
+    }
+    if (subscriptions.has(source)) return;
+    // Changes inside the control already run its validators.
+    if (isSameOrDescendant(source, control)) return;
+    const subscription = source.valueChanges.subscribe(() => {
+      // Released once the validator is removed, the control is removed from the form or the path
+      // leads to another control.
+      if (
+        !control.hasValidator(conditional) ||
+        !isAttached(control) ||
+        resolveDependency(control, path) !== source
+      ) {
+        subscription.unsubscribe();
+        subscriptions!.delete(source);
+        return;
+      }
+      if (revalidating.has(control)) return;
+      revalidating.add(control);
+      try {
+        control.updateValueAndValidity();
+      } finally {
+        revalidating.delete(control);
+      }
+    });
+    subscriptions.set(source, subscription);
+  };
+
+  const conditional: ValidatorFn = (
+    control: AbstractControl
+  ): ValidationErrors | null => {
+    const sources = deps.map((path) => resolveDependency(control, path));
+    sources.forEach((source, i) =>
+      source
+        ? watch(control, deps[i], source)
+        : (control._hasUnresolvedDependencies = true)
+    );
+    const values = sources.map((source) => (source ? source.value : undefined));
+    return predicate(values, control) ? validator(control) : null;
+  };
+  return conditional;
+}
+
+/**
+ * Whether each ancestor of `control` still holds it. Removed controls keep their parent.
+ */
+function isAttached(control: AbstractControl): boolean {
+  for (let current = control; current.parent; current = current.parent) {
+    let found = false;
+    current.parent._forEachChild((child: AbstractControl) => {
+      found = found || child === current;
+    });
+    if (!found) return false;
+  }
+  return true;
+}
+
+function isSameOrDescendant(
+  control: AbstractControl,
+  ancestor: AbstractControl
+): boolean {
+  let current: AbstractControl | null = control;
+  while (current && current !== ancestor) current = current.parent;
+  return !!current;
+}
+
+/**
+ * Validator that requires the control have a non-empty value while another control has a given
+ * value. See `Validators.requiredIf` for additional information.
+ */
+export function requiredIfValidator(
+  path: string | Array<string | number>,
+  expected: any | ((value: any) => boolean)
+): ValidatorFn {
+  return conditionalValidator(
+    ([value]) => matchesExpected(value, expected),
+    requiredValidator,
+    [path]
+  );
+}
+
+/**
+ * Validator that requires the control have a non-empty value unless another control has a given
+ * value. See `Validators.requiredUnless` for additional information.
+ */
+export function requiredUnlessValidator(
+  path: string | Array<string | number>,
+  expected: any | ((value: any) => boolean)
+): ValidatorFn {
+  return conditionalValidator(
+    ([value]) => !matchesExpected(value, expected),
+    requiredValidator,
+    [path]
+  );
+}
+
+function matchesExpected(
+  value: any,
+  expected: any | ((value: any) => boolean)
+): boolean {
+  return typeof expected === "function" ? expected(value) : value === expected;
+}
+
+function resolveDependency(
+  control: AbstractControl,
+  path: string | Array<string | number>
+): AbstractControl | null {
+  return (
+    (control.parent && control.parent.get(path as any)) ||
+    control.root.get(path as any)
+  );
+}
+/**************************/
+
 /**
  * Function that has `ValidatorFn` shape, but performs no operation.
  */
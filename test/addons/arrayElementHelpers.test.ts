@@ -0,0 +1,65 @@
+import {
+  createArrayElementHelpers,
+  FormArray,
+  FormControl,
+  FormGroup,
+  Validators,
+} from "../../src";
+
+const createLines = () =>
+  new FormArray([
+    new FormGroup({ name: new FormControl("a", Validators.required) }),
+    new FormGroup({ name: new FormControl("b", Validators.required) }),
+  ]);
+
+describe("createArrayElementHelpers", () => {
+  it("moves the element up and down", () => {
+    const lines = createLines();
+    const helpers = createArrayElementHelpers(lines, lines.at(1));
+
+    helpers.moveUp();
+    expect(lines.value).toEqual([{ name: "b" }, { name: "a" }]);
+    helpers.moveDown();
+    expect(lines.value).toEqual([{ name: "a" }, { name: "b" }]);
+  });
+
+  it("removes the element", () => {
+    const lines = createLines();
+    createArrayElementHelpers(lines, lines.at(0)).remove();
+    expect(lines.value).toEqual([{ name: "b" }]);
+  });
+
+  it("duplicates the element after it", () => {
+    const lines = createLines();
+    createArrayElementHelpers(lines, lines.at(0)).duplicate();
+
+    expect(lines.value).toEqual([{ name: "a" }, { name: "a" }, { name: "b" }]);
+    expect(lines.at(1)).not.toBe(lines.at(0));
+    expect(lines.at(1).get("name")!.hasValidator(Validators.required)).toBe(
+      true
+    );
+  });
+
+  it("adds a reset copy of the element without createElement", () => {
+    const lines = createLines();
+    createArrayElementHelpers(lines, lines.at(0)).add();
+    expect(lines.at(1).value).toEqual({ name: null });
+  });
+
+  it("adds the element of createElement", () => {
+    const lines = createLines();
+    createArrayElementHelpers(
+      lines,
+      lines.at(1),
+      () => new FormGroup({ name: new FormControl("new") })
+    ).add();
+    expect(lines.at(2).value).toEqual({ name: "new" });
+  });
+
+  it("tells whether the element is first or last", () => {
+    const lines = createLines();
+    const first = createArrayElementHelpers(lines, lines.at(0));
+    expect(first.isFirst).toBe(true);
+    expect(first.isLast).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import { Subject } from "rxjs";
+import { AsyncProcessor } from "../../src";
+
+describe("AsyncProcessor.run", () => {
+  it("tracks the status of a Promise", async () => {
+    const forceUpdate = jest.fn();
+    const processor = new AsyncProcessor(forceUpdate);
+
+    processor.run(Promise.resolve("data"), { id: 1 });
+    expect(processor.status).toBe("PROCESSING");
+    expect(processor.params).toEqual({ id: 1 });
+
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(processor.status).toBe("SUCCESS");
+    expect(processor.data).toBe("data");
+    expect(forceUpdate).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports a rejected Promise through failed", async () => {
+    const processor = new AsyncProcessor();
+    const error = new Error("Offline");
+
+    processor.run(Promise.reject(error));
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(processor.status).toBe("FAILURE");
+    expect(processor.error).toBe(error);
+  });
+
+  it("calls a function source with the params", () => {
+    const source$ = new Subject<string>();
+    const source = jest.fn(() => source$);
+    const processor = new AsyncProcessor();
+
+    processor.run(source, { country: "PE" });
+    expect(source).toHaveBeenCalledWith({ country: "PE" });
+    source$.next("Lima");
+    expect(processor.data).toBe("Lima");
+  });
+
+  it("reports the synchronous errors of a function source", () => {
+    const processor = new AsyncProcessor();
+    const error = new Error("Broken");
+
+    processor.run(() => {
+      throw error;
+    });
+    expect(processor.status).toBe("FAILURE");
+    expect(processor.error).toBe(error);
+  });
+
+  it("succeeds with undefined when nothing is emitted", () => {
+    const source$ = new Subject<string>();
+    const processor = new AsyncProcessor();
+
+    processor.run(source$);
+    source$.complete();
+    expect(processor.status).toBe("SUCCESS");
+    expect(processor.data).toBeUndefined();
+  });
+
+  it("cancels the run in flight when a new one starts", () => {
+    const first$ = new Subject<string>();
+    const second$ = new Subject<string>();
+    const processor = new AsyncProcessor();
+
+    processor.run(first$);
+    processor.run(second$);
+    expect(first$.observers.length).toBe(0);
+
+    first$.next("first");
+    expect(processor.status).toBe("PROCESSING");
+    second$.next("second");
+    expect(processor.data).toBe("second");
+  });
+
+  it("uses the given triggers for the run", () => {
+    const source$ = new Subject<string>();
+    const succeed = jest.fn();
+    const processor = new AsyncProcessor();
+
+    processor.run(source$, undefined, { succeed });
+    source$.next("data");
+    expect(succeed).toHaveBeenCalledWith("data");
+    expect(processor.data).toBeUndefined();
+  });
+});
+
+describe("AsyncProcessor.cancel", () => {
+  it("restores the status the processor had before the run", () => {
+    const source$ = new Subject<string>();
+    const processor = new AsyncProcessor();
+    processor.succeed("loaded");
+
+    processor.run(source$);
+    processor.cancel();
+    expect(processor.status).toBe("SUCCESS");
+    expect(source$.observers.length).toBe(0);
+
+    source$.next("late");
+    expect(processor.data).toBe("loaded");
+  });
+
+  it("does nothing without a run in flight", () => {
+    const statuses: string[] = [];
+    const processor = new AsyncProcessor();
+    processor.status$.subscribe((status) => statuses.push(status));
+    const source$ = new Subject<string>();
+    processor.run(source$);
+    source$.error("error");
+    processor.cancel();
+    expect(processor.status).toBe("FAILURE");
+    expect(statuses).toEqual(["", "PROCESSING", "FAILURE"]);
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  FormArray,
+  FormControl,
+  FormGroup,
+  getFormChanges,
+  getFormPatch,
+  toJsonPatch,
+} from "../../src";
+
+const createForm = () =>
+  new FormGroup({
+    name: new FormControl("Ada"),
+    address: new FormGroup({
+      city: new FormControl("Lima"),
+      zip: new FormControl("15001"),
+    }),
+    tags: new FormArray([new FormControl("a"), new FormControl("b")]),
+  });
+
+const loaded = {
+  name: "Ada",
+  address: { city: "Lima", zip: "15001" },
+  tags: ["a", "b"],
+};
+
+describe("getFormChanges", () => {
+  it("lists the dirty controls", () => {
+    const form = createForm();
+    form.get("address.city")!.setValue("Cusco");
+    form.get("address.city")!.markAsDirty();
+    form.get("name")!.setValue("Grace");
+
+    expect(getFormChanges(form)).toEqual([
+      { op: "replace", path: ["address", "city"], value: "Cusco" },
+    ]);
+  });
+
+  it("reports a whole array whose elements changed", () => {
+    const form = createForm();
+    const tags = form.get("tags") as FormArray;
+    tags.removeAt(0);
+
+    expect(getFormChanges(form)).toEqual([
+      { op: "replace", path: ["tags"], value: ["b"] },
+    ]);
+
+    tags.markAsPristine();
+    expect(getFormChanges(form)).toEqual([]);
+  });
+
+  it("reports reordered elements", () => {
+    const form = createForm();
+    (form.get("tags") as FormArray).move(0, 1);
+
+    expect(getFormChanges(form)).toEqual([
+      { op: "replace", path: ["tags"], value: ["b", "a"] },
+    ]);
+  });
+
+  it("leaves out disabled controls unless includeDisabled", () => {
+    const form = createForm();
+    const zip = form.get("address.zip")!;
+    zip.setValue("08001");
+    zip.markAsDirty();
+    zip.disable();
+
+    expect(getFormChanges(form)).toEqual([]);
+    expect(getFormChanges(form, { includeDisabled: true })).toEqual([
+      { op: "replace", path: ["address", "zip"], value: "08001" },
+    ]);
+  });
+
+  it("diffs the form against compareWith", () => {
+    const form = createForm();
+    form.get("name")!.setValue("Grace");
+    (form.get("tags") as FormArray).removeAt(1);
+
+    expect(
+      getFormChanges(form, {
+        compareWith: { ...loaded, tags: ["a", "b", "c"], extra: 1 },
+      })
+    ).toEqual([
+      { op: "replace", path: ["name"], value: "Grace" },
+      { op: "remove", path: ["tags", 2] },
+      { op: "remove", path: ["tags", 1] },
+    ]);
+  });
+
+  it("reports the controls missing from compareWith as added", () => {
+    const form = createForm();
+    (form.get("tags") as FormArray).push(new FormControl("c"));
+
+    expect(
+      getFormChanges(form, { compareWith: { ...loaded, address: {} } })
+    ).toEqual([
+      { op: "add", path: ["address", "city"], value: "Lima" },
+      { op: "add", path: ["address", "zip"], value: "15001" },
+      { op: "add", path: ["tags", 2], value: "c" },
+    ]);
+  });
+
+  it("doesn't remove the elements before a disabled one", () => {
+    const form = createForm();
+    const tags = form.get("tags") as FormArray;
+    tags.push(new FormControl("c"));
+    tags.at(1).disable();
+
+    expect(
+      getFormChanges(form, {
+        compareWith: { ...loaded, tags: ["a", "b", "c"] },
+      })
+    ).toEqual([]);
+  });
+});
+
+describe("getFormPatch", () => {
+  it("keeps the nesting of the changed fields", () => {
+    const form = createForm();
+    form.get("address.city")!.setValue("Cusco");
+
+    expect(getFormPatch(form, { compareWith: loaded })).toEqual({
+      address: { city: "Cusco" },
+    });
+  });
+
+  it("sends arrays whole", () => {
+    const form = createForm();
+    (form.get("tags") as FormArray).push(new FormControl("c"));
+
+    expect(getFormPatch(form)).toEqual({ tags: ["a", "b", "c"] });
+  });
+
+  it("returns undefined when nothing changed", () => {
+    expect(getFormPatch(createForm())).toBeUndefined();
+  });
+});
+
+describe("toJsonPatch", () => {
+  it("converts the paths into JSON pointers", () => {
+    expect(
+      toJsonPatch([
+        { op: "replace", path: ["a/b", "c~d"], value: 1 },
+        { op: "remove", path: ["tags", 0] },
+      ])
+    ).toEqual([
+      { op: "replace", path: "/a~1b/c~0d", value: 1 },
+      { op: "remove", path: "/tags/0" },
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import { FormArray, FormControl, FormGroup, FormHistory } from "../../src";
+
+const createForm = () =>
+  new FormGroup({
+    name: new FormControl("Ada"),
+    city: new FormControl("Lima"),
+    tags: new FormArray([new FormControl("a")]),
+  });
+
+describe("FormHistory", () => {
+  let now = 0;
+
+  beforeEach(() => {
+    now = 0;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("undoes and redoes value changes", () => {
+    const form = createForm();
+    const history = new FormHistory(form);
+
+    form.get("name")!.setValue("Grace");
+    now = 1000;
+    form.get("city")!.setValue("Cusco");
+
+    history.undo();
+    expect(form.value).toEqual({ name: "Grace", city: "Lima", tags: ["a"] });
+    history.undo();
+    expect(form.value).toEqual({ name: "Ada", city: "Lima", tags: ["a"] });
+    expect(history.canUndo).toBe(false);
+
+    history.redo();
+    expect(form.get("name")!.value).toBe("Grace");
+    expect(history.canRedo).toBe(true);
+  });
+
+  it("merges the edits of a field made within coalesceTime", () => {
+    const form = createForm();
+    const history = new FormHistory(form, { coalesceTime: 300 });
+    const name = form.get("name")!;
+
+    name.setValue("G");
+    now = 200;
+    name.setValue("Gr");
+    now = 400;
+    name.setValue("Gra");
+    now = 1000;
+    name.setValue("Grace");
+
+    history.undo();
+    expect(name.value).toBe("Gra");
+    history.undo();
+    expect(name.value).toBe("Ada");
+  });
+
+  it("doesn't merge the edits of different fields", () => {
+    const form = createForm();
+    const history = new FormHistory(form);
+
+    form.get("name")!.setValue("Grace");
+    form.get("city")!.setValue("Cusco");
+
+    history.undo();
+    expect(form.value).toEqual({ name: "Grace", city: "Lima", tags: ["a"] });
+  });
+
+  it("puts back the removed array elements", () => {
+    const form = createForm();
+    const tags = form.get("tags") as FormArray;
+    const history = new FormHistory(form);
+    const first = tags.at(0);
+
+    tags.push(new FormControl("b"));
+    now = 1000;
+    tags.removeAt(0);
+    expect(tags.value).toEqual(["b"]);
+
+    history.undo();
+    expect(tags.value).toEqual(["a", "b"]);
+    expect(tags.at(0)).toBe(first);
+    history.undo();
+    expect(tags.value).toEqual(["a"]);
+  });
+
+  it("restores the dirty state of the fields", () => {
+    const form = createForm();
+    const history = new FormHistory(form);
+    const name = form.get("name")!;
+
+    name.markAsDirty();
+    name.setValue("Grace");
+    history.undo();
+    expect(name.dirty).toBe(false);
+    expect(form.dirty).toBe(false);
+  });
+
+  it("drops the redo entries on a new change", () => {
+    const form = createForm();
+    const history = new FormHistory(form);
+
+    form.get("name")!.setValue("Grace");
+    history.undo();
+    form.get("city")!.setValue("Cusco");
+    expect(history.canRedo).toBe(false);
+  });
+
+  it("keeps at most maxSize entries", () => {
+    const form = createForm();
+    const history = new FormHistory(form, { maxSize: 2, coalesceTime: 0 });
+    const name = form.get("name")!;
+
+    ["a", "b", "c"].forEach((value, i) => {
+      now = i * 1000;
+      name.setValue(value);
+    });
+    history.undo();
+    history.undo();
+    expect(history.canUndo).toBe(false);
+    expect(name.value).toBe("a");
+  });
+
+  it("emits whether undo and redo are available", () => {
+    const form = createForm();
+    const history = new FormHistory(form);
+    const canUndo: boolean[] = [];
+    history.canUndo$.subscribe((value) => canUndo.push(value));
+
+    form.get("name")!.setValue("Grace");
+    history.undo();
+    expect(canUndo).toEqual([false, true, false]);
+  });
+
+  it("stops recording once destroyed", () => {
+    const form = createForm();
+    const history = new FormHistory(form);
+
+    history.destroy();
+    form.get("name")!.setValue("Grace");
+    expect(history.canUndo).toBe(false);
+  });
+});
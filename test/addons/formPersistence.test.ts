@@ -0,0 +1,123 @@
+import {
+  FormArray,
+  FormConfig,
+  FormControl,
+  FormGroup,
+  FormPersistence,
+  MemoryFormStorage,
+} from "../../src";
+
+const createForm = () =>
+  new FormGroup({
+    name: new FormControl("Ada"),
+    account: new FormGroup({
+      email: new FormControl("ada@example.net"),
+      password: new FormControl("secret"),
+    }),
+    cards: new FormArray([
+      new FormGroup({
+        number: new FormControl("4111"),
+        cvv: new FormControl("123"),
+      }),
+    ]),
+  });
+
+describe("FormPersistence", () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it("writes the draft once the edits stop", () => {
+    const storage = new MemoryFormStorage();
+    const form = createForm();
+    new FormPersistence(form, { key: "draft", storage, debounceTime: 300 });
+
+    form.get("name")!.setValue("Grace");
+    jest.advanceTimersByTime(200);
+    expect(storage.getItem("draft")).toBeNull();
+
+    jest.advanceTimersByTime(100);
+    expect(JSON.parse(storage.getItem("draft")!).name).toBe("Grace");
+  });
+
+  it("leaves the excluded paths out of the draft", () => {
+    const storage = new MemoryFormStorage();
+    const form = createForm();
+    new FormPersistence(form, {
+      key: "draft",
+      storage,
+      exclude: ["account.password", "cards.*.cvv"],
+    });
+
+    form.get("name")!.setValue("Grace");
+    jest.advanceTimersByTime(500);
+    expect(JSON.parse(storage.getItem("draft")!)).toEqual({
+      name: "Grace",
+      account: { email: "ada@example.net" },
+      cards: [{ number: "4111" }],
+    });
+  });
+
+  it("restores the draft, marking the restored fields as dirty", () => {
+    const storage = new MemoryFormStorage();
+    storage.setItem(
+      "draft",
+      JSON.stringify({ name: "Grace", account: { email: "ada@example.net" } })
+    );
+    const form = createForm();
+    const persistence = new FormPersistence(form, { key: "draft", storage });
+
+    expect(persistence.hasDraft()).toBe(true);
+    expect(form.get("name")!.value).toBe("Grace");
+    expect(form.get("name")!.dirty).toBe(true);
+    expect(form.get("account.email")!.dirty).toBe(false);
+    expect(form.get("account.password")!.value).toBe("secret");
+  });
+
+  it("restores the draft on every load of a FormConfig", () => {
+    const storage = new MemoryFormStorage();
+    storage.setItem("draft", JSON.stringify({ name: "Grace" }));
+    const formConfig = FormConfig.create(
+      { createForm: () => createForm() },
+      () => {}
+    );
+    new FormPersistence(formConfig, { key: "draft", storage });
+
+    formConfig.loadSucceed({});
+    expect(formConfig.form.get("name")!.value).toBe("Grace");
+    formConfig.loadSucceed({});
+    expect(formConfig.form.get("name")!.value).toBe("Grace");
+  });
+
+  it("ignores a draft that isn't JSON", () => {
+    const storage = new MemoryFormStorage();
+    storage.setItem("draft", "{");
+    const form = createForm();
+    const persistence = new FormPersistence(form, { key: "draft", storage });
+
+    expect(form.get("name")!.value).toBe("Ada");
+    expect(persistence.hasDraft()).toBe(false);
+  });
+
+  it("drops the pending write when the draft is discarded", () => {
+    const storage = new MemoryFormStorage();
+    const form = createForm();
+    const persistence = new FormPersistence(form, { key: "draft", storage });
+
+    form.get("name")!.setValue("Grace");
+    persistence.discardDraft();
+    jest.advanceTimersByTime(500);
+    expect(persistence.hasDraft()).toBe(false);
+    expect(form.get("name")!.value).toBe("Grace");
+  });
+
+  it("stops writing once destroyed", () => {
+    const storage = new MemoryFormStorage();
+    const form = createForm();
+    const persistence = new FormPersistence(form, { key: "draft", storage });
+
+    persistence.destroy();
+    form.get("name")!.setValue("Grace");
+    jest.advanceTimersByTime(500);
+    expect(storage.getItem("draft")).toBeNull();
+  });
+});
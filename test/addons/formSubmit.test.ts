@@ -0,0 +1,183 @@
+import { Subject } from "rxjs";
+import {
+  AbstractControl,
+  FormConfig,
+  FormControl,
+  FormGroup,
+  Validators,
+} from "../../src";
+
+const event = {} as any;
+
+const createFormConfig = (
+  config: Partial<Parameters<typeof FormConfig.create>[0]> = {},
+  createControl = () => new FormControl("", Validators.required)
+) => {
+  const formConfig = FormConfig.create(
+    { createForm: () => new FormGroup({ name: createControl() }), ...config },
+    () => {}
+  );
+  formConfig.loadSucceed({});
+  return formConfig;
+};
+
+describe("FormConfig.submit", () => {
+  it("calls onValidSubmit only when the form is valid", () => {
+    const onSubmit = jest.fn();
+    const onValidSubmit = jest.fn();
+    const onInvalidSubmit = jest.fn();
+    const afterSubmit = jest.fn();
+    const formConfig = createFormConfig({
+      onSubmit,
+      onValidSubmit,
+      onInvalidSubmit,
+      afterSubmit,
+    });
+
+    formConfig.submit(event);
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+    expect(onValidSubmit).not.toHaveBeenCalled();
+    expect(onInvalidSubmit).toHaveBeenCalledTimes(1);
+    expect(afterSubmit).toHaveBeenLastCalledWith(formConfig.form, {
+      valid: false,
+    });
+    expect(formConfig.form.get("name")!.touched).toBe(true);
+
+    formConfig.form.get("name")!.setValue("Ada");
+    formConfig.submit(event);
+    expect(onValidSubmit).toHaveBeenCalledTimes(1);
+    expect(afterSubmit).toHaveBeenLastCalledWith(formConfig.form, {
+      valid: true,
+    });
+  });
+
+  it("waits for the pending async validators", () => {
+    const validation$ = new Subject<any>();
+    const onValidSubmit = jest.fn();
+    const formConfig = createFormConfig(
+      { onValidSubmit },
+      () => new FormControl("Ada", null, () => validation$)
+    );
+
+    formConfig.submit(event);
+    expect(formConfig.form.pending).toBe(true);
+    expect(onValidSubmit).not.toHaveBeenCalled();
+
+    validation$.next(null);
+    validation$.complete();
+    expect(onValidSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it("is cancelled when beforeSubmit returns false", async () => {
+    const onSubmit = jest.fn();
+    const afterSubmit = jest.fn();
+    const formConfig = createFormConfig({
+      beforeSubmit: () => Promise.resolve(false),
+      onSubmit,
+      afterSubmit,
+    });
+
+    formConfig.submit(event);
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(afterSubmit).not.toHaveBeenCalled();
+  });
+
+  it("reports the error of beforeSubmit to afterSubmit", async () => {
+    const error = new Error("Rejected");
+    const onSubmit = jest.fn();
+    const afterSubmit = jest.fn();
+    const formConfig = createFormConfig({
+      beforeSubmit: () => Promise.reject(error),
+      onSubmit,
+      afterSubmit,
+    });
+
+    formConfig.submit(event);
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(afterSubmit).toHaveBeenCalledWith(formConfig.form, {
+      valid: false,
+      error,
+    });
+  });
+
+  it("reports a throwing handler to afterSubmit", () => {
+    const error = new Error("Broken");
+    const afterSubmit = jest.fn();
+    const formConfig = createFormConfig({
+      onSubmit: () => {
+        throw error;
+      },
+      afterSubmit,
+    });
+
+    formConfig.submit(event);
+    expect(afterSubmit).toHaveBeenCalledWith(formConfig.form, {
+      valid: false,
+      error,
+    });
+  });
+
+  it("tracks the returned Observable with the save processor", () => {
+    const saved$ = new Subject<any>();
+    const afterSubmit = jest.fn();
+    const formConfig = createFormConfig({
+      onValidSubmit: () => saved$,
+      afterSubmit,
+    });
+    formConfig.form.get("name")!.setValue("Ada");
+
+    formConfig.submit(event);
+    expect(formConfig.formSaveStatus).toBe("PROCESSING");
+    expect(formConfig.formSaveParams).toEqual({ name: "Ada" });
+    expect(afterSubmit).not.toHaveBeenCalled();
+
+    saved$.next({ id: 1 });
+    saved$.complete();
+    expect(formConfig.formSaveStatus).toBe("SUCCESS");
+    expect(formConfig.formSavedData).toEqual({ id: 1 });
+    expect(afterSubmit).toHaveBeenCalledWith(formConfig.form, {
+      valid: true,
+      data: { id: 1 },
+    });
+  });
+
+  it("sets the server errors of a failed save", () => {
+    const saved$ = new Subject<any>();
+    const formConfig = createFormConfig({
+      onValidSubmit: () => saved$,
+      serverErrors: true,
+    });
+    const name = formConfig.form.get("name") as AbstractControl;
+    name.setValue("Ada");
+
+    formConfig.submit(event);
+    saved$.error({ name: ["Already taken"] });
+    expect(formConfig.formSaveStatus).toBe("FAILURE");
+    expect(name.errors).toEqual({ serverErrors: ["Already taken"] });
+  });
+
+  it("cancels the save of the previous submit", () => {
+    const saved$ = new Subject<any>();
+    const formConfig = createFormConfig({ onValidSubmit: () => saved$ });
+    formConfig.form.get("name")!.setValue("Ada");
+
+    formConfig.submit(event);
+    expect(saved$.observers.length).toBe(1);
+    formConfig.submit(event);
+    expect(saved$.observers.length).toBe(1);
+  });
+
+  it("does nothing while the form loads", () => {
+    const onSubmit = jest.fn();
+    const formConfig = FormConfig.create(
+      { createForm: () => new FormGroup({}), onSubmit },
+      () => {}
+    );
+    formConfig.loadProcessing();
+
+    expect(() => formConfig.submit(event)).not.toThrow();
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  applyServerErrors,
+  clearServerErrors,
+  FormArray,
+  FormControl,
+  FormGroup,
+  parseServerErrors,
+  Validators,
+} from "../../src";
+
+const createForm = () =>
+  new FormGroup({
+    email: new FormControl("ada@example.net", Validators.required),
+    address: new FormGroup({
+      city: new FormControl("Lima"),
+      zip: new FormControl("15001"),
+    }),
+    tags: new FormArray([new FormControl("a"), new FormControl("b")]),
+  });
+
+describe("parseServerErrors", () => {
+  it("reads a map of messages", () => {
+    expect(parseServerErrors({ email: "Taken", name: ["A", "B"] })).toEqual({
+      email: ["Taken"],
+      name: ["A", "B"],
+    });
+  });
+
+  it("reads the map in errors", () => {
+    expect(
+      parseServerErrors({ title: "Invalid", errors: { email: ["Taken"] } })
+    ).toEqual({ email: ["Taken"] });
+  });
+
+  it("reads the invalid-params of RFC 7807 problem details", () => {
+    expect(
+      parseServerErrors({
+        type: "https://example.net/validation-error",
+        "invalid-params": [
+          { name: "age", reason: "must be positive" },
+          { name: "age", reason: "must be a number" },
+        ],
+      })
+    ).toEqual({ age: ["must be positive", "must be a number"] });
+  });
+
+  it("reads a list with paths or JSON pointers", () => {
+    expect(
+      parseServerErrors([
+        { field: ["tags", 0], message: "Too short" },
+        { pointer: "/address/city", detail: "Unknown city" },
+      ])
+    ).toEqual({
+      "tags.0": ["Too short"],
+      "/address/city": ["Unknown city"],
+    });
+  });
+
+  it("returns null for other payloads", () => {
+    expect(parseServerErrors("Server error")).toBeNull();
+    expect(parseServerErrors({ message: { code: 500 } })).toBeNull();
+    expect(parseServerErrors([{ field: "email" }])).toBeNull();
+  });
+});
+
+describe("applyServerErrors", () => {
+  it("sets the messages on the controls of each path", () => {
+    const form = createForm();
+    const unmatched = applyServerErrors(form, [
+      { path: "tags[1]", message: "Duplicated" },
+      { pointer: "#/address/city", message: "Unknown city" },
+      { path: "missing", message: "Lost" },
+      { path: "", message: "Try again" },
+    ]);
+
+    expect(form.get(["tags", 1])!.errors).toEqual({
+      serverErrors: ["Duplicated"],
+    });
+    expect(form.get("address.city")!.errors).toEqual({
+      serverErrors: ["Unknown city"],
+    });
+    expect(form.errors).toEqual({ serverErrors: ["Try again"] });
+    expect(unmatched).toEqual({ missing: ["Lost"] });
+  });
+
+  it("keeps the messages of a control until its value changes", () => {
+    const form = createForm();
+    const email = form.get("email")!;
+    applyServerErrors(form, { email: "Taken" });
+
+    email.updateValueAndValidity();
+    form.get("address.city")!.setValue("Cusco");
+    expect(email.errors).toEqual({ serverErrors: ["Taken"] });
+
+    email.setValue("grace@example.net");
+    expect(email.errors).toBeNull();
+    email.setValue("ada@example.net");
+    expect(email.errors).toBeNull();
+  });
+
+  it("keeps the messages of a group until one of its children changes", () => {
+    const form = createForm();
+    const address = form.get("address")!;
+    applyServerErrors(form, { address: "Not deliverable" });
+
+    form.get("email")!.setValue("grace@example.net");
+    expect(address.errors).toEqual({ serverErrors: ["Not deliverable"] });
+
+    form.get("address.zip")!.setValue("08001");
+    expect(address.errors).toBeNull();
+  });
+
+  it("keeps the messages of an array until its elements change", () => {
+    const form = createForm();
+    const tags = form.get("tags") as FormArray;
+    applyServerErrors(form, { tags: "Too many tags" });
+
+    tags.updateValueAndValidity();
+    expect(tags.errors).toEqual({ serverErrors: ["Too many tags"] });
+
+    tags.removeAt(0);
+    expect(tags.errors).toBeNull();
+  });
+
+  it("keeps the other errors of the control", () => {
+    const form = createForm();
+    const email = form.get("email")!;
+    email.setValue("");
+    applyServerErrors(form, { email: "Taken" });
+
+    expect(email.errors).toEqual({
+      required: true,
+      serverErrors: ["Taken"],
+    });
+  });
+});
+
+describe("clearServerErrors", () => {
+  it("removes the messages of the tree", () => {
+    const form = createForm();
+    applyServerErrors(form, { email: "Taken", address: "Not deliverable" });
+
+    clearServerErrors(form);
+    expect(form.get("email")!.errors).toBeNull();
+    expect(form.get("address")!.errors).toBeNull();
+
+    form.get("address")!.updateValueAndValidity();
+    expect(form.get("address")!.errors).toBeNull();
+  });
+});
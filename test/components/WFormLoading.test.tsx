@@ -0,0 +1,89 @@
+import React from "react";
+import ReactDOM from "react-dom";
+import { act } from "react-dom/test-utils";
+import {
+  FormConfig,
+  FormControl,
+  FormGroup,
+  useFormSelector,
+  WForm,
+  WFormControl,
+} from "../../src";
+
+describe("WForm while loading", () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(container);
+    container.remove();
+  });
+
+  it("renders its controls once the form is created", () => {
+    const formConfig = FormConfig.create(
+      {
+        createForm: (data) =>
+          new FormGroup({ name: new FormControl(data.name) }),
+      },
+      () => {}
+    );
+    formConfig.loadProcessing();
+    const render = () =>
+      ReactDOM.render(
+        <WForm formConfig={formConfig}>
+          <WFormControl name="name">
+            {({ control }: any) => <span>{control.value}</span>}
+          </WFormControl>
+        </WForm>,
+        container
+      );
+
+    act(() => {
+      render();
+    });
+    expect(container.querySelector("form")).not.toBeNull();
+
+    act(() => {
+      formConfig.loadSucceed({ name: "Ada" });
+      render();
+    });
+    expect(container.textContent).toBe("Ada");
+  });
+
+  it("selects nothing until the form is created", () => {
+    const formConfig = FormConfig.create(
+      {
+        createForm: (data) =>
+          new FormGroup({ name: new FormControl(data.name) }),
+      },
+      () => {}
+    );
+    formConfig.loadProcessing();
+    const Name = () => {
+      const name = useFormSelector(null, (form) => form.value.name);
+      return <span>{name === undefined ? "loading" : name}</span>;
+    };
+    const render = () =>
+      ReactDOM.render(
+        <WForm formConfig={formConfig}>
+          <Name />
+        </WForm>,
+        container
+      );
+
+    act(() => {
+      render();
+    });
+    expect(container.textContent).toBe("loading");
+
+    act(() => {
+      formConfig.loadSucceed({ name: "Ada" });
+      render();
+    });
+    expect(container.textContent).toBe("Ada");
+  });
+});
@@ -0,0 +1,93 @@
+import { NEVER, of } from "rxjs";
+import { AsyncValidatorFn, FormControl } from "../../src";
+
+describe("asyncValidation options", () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  const takenValidator = () =>
+    jest.fn<ReturnType<AsyncValidatorFn>, Parameters<AsyncValidatorFn>>(
+      (control) => of(control.value === "taken" ? { taken: true } : null)
+    );
+
+  it("waits for debounceTime before validating", () => {
+    const validator = takenValidator();
+    const control = new FormControl("", {
+      asyncValidators: validator,
+      asyncValidation: { debounceTime: 300 },
+    });
+    validator.mockClear();
+
+    control.setValue("t");
+    control.setValue("taken");
+    expect(control.status).toBe("PENDING");
+    expect(validator).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(300);
+    expect(validator).toHaveBeenCalledTimes(1);
+    expect(control.errors).toEqual({ taken: true });
+    expect(control.status).toBe("INVALID");
+  });
+
+  it("reuses the last result with distinct", () => {
+    const validator = takenValidator();
+    const control = new FormControl("taken", {
+      asyncValidators: validator,
+      asyncValidation: { distinct: true },
+    });
+    validator.mockClear();
+
+    control.updateValueAndValidity();
+    expect(validator).not.toHaveBeenCalled();
+    expect(control.errors).toEqual({ taken: true });
+  });
+
+  it("reuses the cached results of previous values", () => {
+    const validator = takenValidator();
+    const control = new FormControl("taken", {
+      asyncValidators: validator,
+      asyncValidation: { cacheSize: 5 },
+    });
+    control.setValue("free");
+    validator.mockClear();
+
+    control.setValue("taken");
+    expect(validator).not.toHaveBeenCalled();
+    expect(control.errors).toEqual({ taken: true });
+  });
+
+  it("validates again after the validators change", () => {
+    const validator = takenValidator();
+    const control = new FormControl("taken", {
+      asyncValidators: validator,
+      asyncValidation: { cacheSize: 5 },
+    });
+    const other = takenValidator();
+    control.setAsyncValidators(other);
+
+    control.updateValueAndValidity();
+    expect(other).toHaveBeenCalledTimes(1);
+  });
+
+  it("sets asyncTimeout when the validation takes too long", () => {
+    const control = new FormControl("", {
+      asyncValidators: () => NEVER,
+      asyncValidation: { timeout: 1000 },
+    });
+    expect(control.status).toBe("PENDING");
+
+    jest.advanceTimersByTime(1000);
+    expect(control.errors).toEqual({ asyncTimeout: true });
+    expect(control.status).toBe("INVALID");
+  });
+
+  it("sets timeoutError when given", () => {
+    const control = new FormControl("", {
+      asyncValidators: () => NEVER,
+      asyncValidation: { timeout: 1000, timeoutError: { slow: true } },
+    });
+
+    jest.advanceTimersByTime(1000);
+    expect(control.errors).toEqual({ slow: true });
+  });
+});
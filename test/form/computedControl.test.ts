@@ -0,0 +1,74 @@
+import { FormArray, FormControl, FormGroup } from "../../src";
+
+const createRow = (excludeFromValue = false) =>
+  new FormGroup({
+    qty: new FormControl(2),
+    price: new FormControl(10),
+    total: new FormControl(0, {
+      computed: {
+        deps: ["qty", "price"],
+        compute: ([qty, price]) => qty * price,
+        excludeFromValue,
+      },
+    }),
+  });
+
+describe("computed FormControl", () => {
+  it("computes its value when attached to its parent", () => {
+    expect(createRow().get("total")!.value).toBe(20);
+  });
+
+  it("computes its value again when a source changes", () => {
+    const row = createRow();
+    row.get("qty")!.setValue(3);
+    expect(row.get("total")!.value).toBe(30);
+  });
+
+  it("ignores writes of its own value", () => {
+    const row = createRow();
+    const total = row.get("total")!;
+
+    total.setValue(99);
+    expect(total.value).toBe(20);
+    total.onChange(99);
+    expect(total.value).toBe(20);
+    total.reset();
+    expect(total.value).toBe(20);
+  });
+
+  it("keeps the computed value after a parent setValue", () => {
+    const row = createRow();
+    row.setValue({ total: 1, qty: 4, price: 5 });
+    expect(row.get("total")!.value).toBe(20);
+  });
+
+  it("keeps the computed value after a parent patchValue without events", () => {
+    const row = createRow();
+    row.patchValue({ qty: 5 }, { emitEvent: false });
+    expect(row.get("total")!.value).toBe(50);
+    expect(row.value.total).toBe(50);
+  });
+
+  it("computes the values of FormArray elements", () => {
+    const lines = new FormArray([createRow(), createRow()]);
+    lines.setValue([
+      { qty: 1, price: 1, total: 0 },
+      { qty: 2, price: 3, total: 0 },
+    ]);
+    expect(lines.getRawValue().map((line: any) => line.total)).toEqual([1, 6]);
+  });
+
+  describe("with excludeFromValue", () => {
+    it("is left out of the value of its parent", () => {
+      const row = createRow(true);
+      expect(row.value).toEqual({ qty: 2, price: 10 });
+      expect(row.getRawValue()).toEqual({ qty: 2, price: 10, total: 20 });
+    });
+
+    it("accepts the value of its parent in setValue", () => {
+      const row = createRow(true);
+      expect(() => row.setValue(row.value as any)).not.toThrow();
+      expect(row.get("total")!.value).toBe(20);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { FormArray, FormControl, FormGroup, Validators } from "../../src";
+
+const createAddress = () =>
+  new FormGroup({
+    country: new FormControl("US"),
+    state: new FormControl("", Validators.requiredIf("country", "US")),
+    zip: new FormControl("", Validators.requiredUnless("country", "US")),
+  });
+
+describe("conditional validators", () => {
+  it("apply the validators while the predicate holds", () => {
+    const address = createAddress();
+    expect(address.get("state")!.errors).toEqual({ required: true });
+    expect(address.get("zip")!.errors).toBeNull();
+  });
+
+  it("resolve dependencies added after the control", () => {
+    const state = new FormControl("", Validators.requiredIf("country", "US"));
+    const address = new FormGroup({ state, country: new FormControl("US") });
+    expect(address.get("state")!.errors).toEqual({ required: true });
+  });
+
+  it("accept a predicate function in when", () => {
+    const form = new FormGroup({
+      age: new FormControl(15),
+      guardian: new FormControl(
+        "",
+        Validators.when(([age]) => age < 18, Validators.required, ["age"])
+      ),
+    });
+    expect(form.get("guardian")!.errors).toEqual({ required: true });
+  });
+
+  it("validate again when a dependency changes", () => {
+    const address = createAddress();
+
+    address.get("country")!.setValue("PE");
+    expect(address.get("state")!.errors).toBeNull();
+    expect(address.get("zip")!.errors).toEqual({ required: true });
+  });
+
+  it("validate again in the rows added to an array", () => {
+    const createLine = () =>
+      new FormGroup({
+        type: new FormControl("product"),
+        sku: new FormControl("", Validators.requiredIf("type", "product")),
+      });
+    const lines = new FormArray([createLine()]);
+    lines.push(createLine());
+    const sku = lines.at(1).get("sku")!;
+    expect(sku.errors).toEqual({ required: true });
+
+    lines.at(1).get("type")!.setValue("service");
+    expect(sku.errors).toBeNull();
+  });
+
+  it("resolve dependencies from the root once attached", () => {
+    const form = new FormGroup({
+      country: new FormControl("US"),
+      addresses: new FormArray<FormGroup>([]),
+    });
+    const addresses = form.get("addresses") as FormArray;
+    addresses.push(
+      new FormGroup({
+        state: new FormControl("", Validators.requiredIf("country", "US")),
+      })
+    );
+    const state = addresses.at(0).get("state")!;
+    expect(state.errors).toEqual({ required: true });
+
+    form.get("country")!.setValue("PE");
+    expect(state.errors).toBeNull();
+  });
+
+  it("stop validating on dependency changes once removed", () => {
+    const address = createAddress();
+    const state = address.get("state")!;
+    state.clearValidators();
+    state.updateValueAndValidity();
+
+    const updateValueAndValidity = jest.spyOn(state, "updateValueAndValidity");
+    address.get("country")!.setValue("PE");
+    address.get("country")!.setValue("US");
+    expect(updateValueAndValidity).not.toHaveBeenCalled();
+  });
+
+  it("stop validating once the control is detached", () => {
+    const form = new FormGroup({
+      country: new FormControl("US"),
+      addresses: new FormArray([
+        new FormGroup({
+          state: new FormControl("", Validators.requiredIf("country", "US")),
+        }),
+      ]),
+    });
+    const addresses = form.get("addresses") as FormArray;
+    const state = addresses.at(0).get("state")!;
+    addresses.removeAt(0);
+
+    const updateValueAndValidity = jest.spyOn(state, "updateValueAndValidity");
+    form.get("country")!.setValue("PE");
+    form.get("country")!.setValue("US");
+    expect(updateValueAndValidity).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,72 @@
+import { FormControl, FormGroup } from "../../src";
+
+describe("FormGroup.addCrossFieldValidator", () => {
+  const createForm = () =>
+    new FormGroup({
+      password: new FormControl("secret"),
+      confirmPassword: new FormControl("other"),
+    });
+  const matches = ([password, confirm]: any[]) =>
+    password === confirm ? null : { mismatch: true };
+
+  it("sets the errors on the target control", () => {
+    const form = createForm();
+    form.addCrossFieldValidator({
+      paths: ["password", "confirmPassword"],
+      target: "confirmPassword",
+      validator: matches,
+    });
+
+    expect(form.get("confirmPassword")!.errors).toEqual({ mismatch: true });
+    expect(form.errors).toBeNull();
+    expect(form.invalid).toBe(true);
+  });
+
+  it("validates again when another path changes", () => {
+    const form = createForm();
+    form.addCrossFieldValidator({
+      paths: ["password", "confirmPassword"],
+      target: "confirmPassword",
+      validator: matches,
+    });
+
+    form.get("password")!.setValue("other");
+    expect(form.get("confirmPassword")!.errors).toBeNull();
+    form.get("password")!.setValue("changed");
+    expect(form.get("confirmPassword")!.errors).toEqual({ mismatch: true });
+  });
+
+  it("sets the errors on the group without target", () => {
+    const form = createForm();
+    form.addCrossFieldValidator({
+      paths: ["password", "confirmPassword"],
+      validator: matches,
+    });
+
+    expect(form.errors).toEqual({ mismatch: true });
+  });
+
+  it("removes the validator with the returned function", () => {
+    const form = createForm();
+    const remove = form.addCrossFieldValidator({
+      paths: ["password", "confirmPassword"],
+      target: "confirmPassword",
+      validator: matches,
+    });
+
+    remove();
+    expect(form.get("confirmPassword")!.errors).toBeNull();
+    form.get("password")!.setValue("changed");
+    expect(form.get("confirmPassword")!.errors).toBeNull();
+  });
+
+  it("throws for a missing path", () => {
+    const form = createForm();
+    expect(() =>
+      form.addCrossFieldValidator({
+        paths: ["password", "missing"],
+        validator: matches,
+      })
+    ).toThrow();
+  });
+});
@@ -0,0 +1,77 @@
+import { FormArray, FormControl } from "../../src";
+
+const createArray = () =>
+  new FormArray([
+    new FormControl("a"),
+    new FormControl("b"),
+    new FormControl("c"),
+  ]);
+
+describe("FormArray.move", () => {
+  it("moves a control, shifting the ones in between", () => {
+    const array = createArray();
+    const [a, b, c] = array.controls;
+
+    array.move(0, 2);
+    expect(array.value).toEqual(["b", "c", "a"]);
+    expect(array.controls).toEqual([b, c, a]);
+  });
+
+  it("accepts negative indexes", () => {
+    const array = createArray();
+    array.move(-1, 0);
+    expect(array.value).toEqual(["c", "a", "b"]);
+  });
+
+  it("ignores indexes out of range", () => {
+    const array = createArray();
+    array.move(0, 3);
+    expect(array.value).toEqual(["a", "b", "c"]);
+  });
+
+  it("emits valueChanges unless emitEvent is false", () => {
+    const array = createArray();
+    const values: any[] = [];
+    array.valueChanges.subscribe((value) => values.push(value));
+
+    array.move(0, 1);
+    array.move(0, 1, { emitEvent: false });
+    expect(values).toEqual([["b", "a", "c"]]);
+  });
+
+  it("keeps the id of the moved control", () => {
+    const array = createArray();
+    const { id } = array.at(0);
+    array.move(0, 2);
+    expect(array.at(2).id).toBe(id);
+  });
+});
+
+describe("FormArray.swap", () => {
+  it("swaps two controls", () => {
+    const array = createArray();
+    array.swap(0, 2);
+    expect(array.value).toEqual(["c", "b", "a"]);
+  });
+
+  it("accepts negative indexes", () => {
+    const array = createArray();
+    array.swap(0, -2);
+    expect(array.value).toEqual(["b", "a", "c"]);
+  });
+
+  it("ignores indexes out of range", () => {
+    const array = createArray();
+    array.swap(1, 5);
+    expect(array.value).toEqual(["a", "b", "c"]);
+  });
+
+  it("notifies the change listeners", () => {
+    const array = createArray();
+    const listener = jest.fn();
+    array.subscribeChanges(listener);
+
+    array.swap(0, 1);
+    expect(listener).toHaveBeenCalled();
+  });
+});
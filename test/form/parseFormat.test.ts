@@ -0,0 +1,125 @@
+import {
+  cloneControl,
+  dateParser,
+  FormControl,
+  numberParser,
+  trimParser,
+} from "../../src";
+
+const formatNumber = (value: number | null) =>
+  value == null ? "" : value.toLocaleString("en-US");
+
+describe("parse and format", () => {
+  it("sets the parsed value and keeps the typed text", () => {
+    const control = new FormControl<number | null>(null, {
+      parse: numberParser(),
+      format: formatNumber,
+    });
+
+    control.onChange("1,234.50");
+    expect(control.value).toBe(1234.5);
+    expect(control.viewValue).toBe("1,234.50");
+    expect(control.errors).toBeNull();
+  });
+
+  it("sets a parse error when the text can't be parsed", () => {
+    const control = new FormControl<number | null>(1, {
+      parse: numberParser(),
+    });
+
+    control.onChange("abc");
+    expect(control.value).toBeNull();
+    expect(control.viewValue).toBe("abc");
+    expect(control.errors).toEqual({
+      parse: { viewValue: "abc", message: '"abc" is not a number.' },
+    });
+
+    control.onChange("12");
+    expect(control.value).toBe(12);
+    expect(control.errors).toBeNull();
+  });
+
+  it("renders the formatted value once the input is left", () => {
+    const control = new FormControl<number | null>(null, {
+      parse: numberParser(),
+      format: formatNumber,
+    });
+
+    control.onChange("1234.5");
+    control.onBlur();
+    expect(control.viewValue).toBe("1,234.5");
+  });
+
+  it("keeps the typed text of a parse error after blur", () => {
+    const control = new FormControl<number | null>(null, {
+      parse: numberParser(),
+    });
+
+    control.onChange("abc");
+    control.onBlur();
+    expect(control.viewValue).toBe("abc");
+  });
+
+  it("formats the values set by code", () => {
+    const control = new FormControl<number | null>(null, {
+      format: formatNumber,
+    });
+
+    control.setValue(5000);
+    expect(control.viewValue).toBe("5,000");
+  });
+
+  it("is copied by cloneControl", () => {
+    const control = new FormControl<number | null>(1000, {
+      parse: numberParser(),
+      format: formatNumber,
+    });
+    const clone = cloneControl(control);
+
+    expect(clone.viewValue).toBe("1,000");
+    clone.onChange("2,500");
+    expect(clone.value).toBe(2500);
+  });
+});
+
+describe("parsers", () => {
+  it("numberParser reads custom separators and ignores symbols", () => {
+    const parse = numberParser({
+      decimalSeparator: ",",
+      thousandsSeparator: ".",
+    });
+    expect(parse("1.234,5 €")).toBe(1234.5);
+    expect(parse("")).toBeNull();
+    expect(() => parse("€")).toThrow();
+  });
+
+  it("numberParser reads the dot as thousands separator after a decimal comma", () => {
+    const parse = numberParser({ decimalSeparator: "," });
+    expect(parse("1,5")).toBe(1.5);
+    expect(parse("1.234,5")).toBe(1234.5);
+  });
+
+  it("numberParser rejects equal separators", () => {
+    expect(() =>
+      numberParser({ decimalSeparator: ".", thousandsSeparator: "." })
+    ).toThrow();
+  });
+
+  it("dateParser keeps the local date of date inputs", () => {
+    const parse = dateParser({ dateOnly: true });
+    expect(parse("2024-02-29")).toBe("2024-02-29");
+    expect(parse(new Date(2024, 0, 5, 23, 30))).toBe("2024-01-05");
+    expect(parse(null)).toBeNull();
+  });
+
+  it("dateParser rejects invalid dates", () => {
+    const parse = dateParser();
+    expect(() => parse("2024-02-30")).toThrow();
+    expect(() => parse("not a date")).toThrow();
+  });
+
+  it("trimParser trims text only", () => {
+    expect(trimParser("  a b ")).toBe("a b");
+    expect(trimParser(3)).toBe(3);
+  });
+});
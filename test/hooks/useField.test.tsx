@@ -0,0 +1,124 @@
+import React from "react";
+import ReactDOM from "react-dom";
+import { act } from "react-dom/test-utils";
+import {
+  FormConfig,
+  FormControl,
+  FormGroup,
+  IUseFieldOptions,
+  IUseFieldResult,
+  numberParser,
+  useField,
+  Validators,
+  WForm,
+} from "../../src";
+
+describe("useField", () => {
+  let container: HTMLDivElement;
+  let form: FormGroup;
+  let result: IUseFieldResult;
+
+  const Field = (props: { name: string; options?: IUseFieldOptions }) => {
+    result = useField(props.name, props.options);
+    return <input {...result.props} />;
+  };
+
+  const renderField = (name: string, options?: IUseFieldOptions) => {
+    const formConfig = FormConfig.create({ createForm: () => form }, () => {});
+    formConfig.loadSucceed({});
+    act(() => {
+      ReactDOM.render(
+        <WForm formConfig={formConfig}>
+          <Field name={name} options={options} />
+        </WForm>,
+        container
+      );
+    });
+    return container.querySelector("input")!;
+  };
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    form = new FormGroup({
+      email: new FormControl("ada@example.net", Validators.required),
+      age: new FormControl<number | null>(36),
+      price: new FormControl<number | null>(null, { parse: numberParser() }),
+      tags: new FormControl<string[]>(["a"]),
+    });
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(container);
+    container.remove();
+  });
+
+  it("binds the value, change and blur of the control", () => {
+    const input = renderField("email");
+    const email = form.get("email")!;
+    expect(input.value).toBe("ada@example.net");
+    expect(input.id).toBe(email.id);
+    expect(input.name).toBe("email");
+
+    act(() => result.props.onChange("grace@example.net"));
+    expect(email.value).toBe("grace@example.net");
+    expect(input.value).toBe("grace@example.net");
+
+    act(() => result.props.onBlur());
+    expect(email.touched).toBe(true);
+  });
+
+  it("parses the value with the accessor of the type", () => {
+    renderField("age", { type: "number" });
+
+    act(() => result.props.onChange("40"));
+    expect(form.get("age")!.value).toBe(40);
+    act(() => result.props.onChange(""));
+    expect(form.get("age")!.value).toBeNull();
+  });
+
+  it("leaves the parsing to a control with its own parse", () => {
+    renderField("price", { type: "number" });
+
+    act(() => result.props.onChange("1,234.5"));
+    expect(form.get("price")!.value).toBe(1234.5);
+  });
+
+  it("toggles a value of a checkbox group", () => {
+    renderField("tags", { type: "checkbox", value: "b" });
+    expect(result.props.checked).toBe(false);
+
+    act(() => result.props.onChange(true));
+    expect(form.get("tags")!.value).toEqual(["a", "b"]);
+    expect(result.props.checked).toBe(true);
+  });
+
+  it("follows the disabled state of the control", () => {
+    const input = renderField("email");
+
+    act(() => form.get("email")!.disable());
+    expect(input.disabled).toBe(true);
+    act(() => form.get("email")!.enable());
+    expect(input.disabled).toBe(false);
+  });
+
+  it("describes the errors once they are displayed", () => {
+    const input = renderField("email");
+
+    act(() => result.props.onChange(""));
+    act(() => result.props.onBlur());
+    expect(result.showErrors).toBe(true);
+    expect(input.getAttribute("aria-invalid")).toBe("true");
+    expect(input.getAttribute("aria-describedby")).toBe(result.errorsId);
+  });
+
+  it("reports a missing control instead of throwing", () => {
+    renderField("missing");
+
+    expect(result.status).toBe("FAILURE");
+    expect(result.errors).toEqual({
+      code: "Control with name :missing was not found.",
+    });
+    expect(result.control.parent).toBeNull();
+  });
+});